@@ -0,0 +1,12 @@
+/**
+ * Error thrown when no access token could be acquired for the PowerPlatform API.
+ * Kept apart from PowerPlatformApiError, since no request was sent and the hints for failed requests don't apply.
+ */
+export class AuthenticationError extends Error {
+  constructor(cause: unknown) {
+    const reason = String((cause as any)?.message || cause);
+    super(`Authentication failed: ${reason}. Check the credentials configured for the environment (client ID, secret, tenant ID), or sign in again.`);
+    this.name = 'AuthenticationError';
+    this.cause = cause;
+  }
+}
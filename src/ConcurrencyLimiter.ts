@@ -0,0 +1,51 @@
+/**
+ * Limits how many asynchronous tasks run at the same time; further tasks wait in a queue
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private queue: (() => void)[] = [];
+  private maxConcurrent: number;
+
+  /**
+   * @param maxConcurrent Maximum number of tasks running at once
+   */
+  constructor(maxConcurrent: number) {
+    // NaN would never free a slot and leave every task queued forever
+    if (!Number.isInteger(maxConcurrent) || maxConcurrent < 1) {
+      throw new Error(`Maximum number of concurrent tasks must be a whole number of at least 1, got '${maxConcurrent}'`);
+    }
+    this.maxConcurrent = maxConcurrent;
+  }
+
+  /**
+   * Run a task as soon as a slot is free
+   * @param task The task to run
+   * @returns The result of the task
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+    // The slot is handed over directly by release(), so active stays unchanged
+    return new Promise(resolve => this.queue.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
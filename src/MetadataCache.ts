@@ -0,0 +1,163 @@
+import fs from 'fs';
+import path from 'path';
+
+// A cached value and the time it expires
+interface CacheEntry {
+  value: any;
+  expiresAt: number;
+}
+
+// How long saving the persistence file is delayed, so a burst of cache misses is written once
+const SAVE_DELAY_MS = 1000;
+
+// Layout of the persistence file
+interface CacheFile {
+  organizationUrl: string;
+  entries: Record<string, CacheEntry>;
+}
+
+/**
+ * In-memory cache for metadata responses with a time-to-live and optional persistence to a file
+ */
+export class MetadataCache {
+  private entries = new Map<string, CacheEntry>();
+  private organizationUrl: string;
+  private ttlMs: number;
+  private persistencePath?: string;
+  private saveTimer?: NodeJS.Timeout;
+  private saving: Promise<void> = Promise.resolve();
+
+  /**
+   * @param organizationUrl The organization the cached metadata belongs to
+   * @param ttlSeconds How long entries stay valid; 0 disables caching
+   * @param persistencePath Optional file the cache is loaded from and saved to
+   */
+  constructor(organizationUrl: string, ttlSeconds: number, persistencePath?: string) {
+    this.organizationUrl = organizationUrl;
+    this.ttlMs = ttlSeconds * 1000;
+    this.persistencePath = persistencePath;
+    this.load();
+  }
+
+  /**
+   * Get a cached value, or fetch and cache it when missing or expired
+   * @param key The cache key
+   * @param fetch Function that fetches the value
+   * @returns A copy of the cached value, so callers can't modify the cache
+   */
+  async getOrFetch<T>(key: string, fetch: () => Promise<T>): Promise<T> {
+    if (this.ttlMs <= 0) {
+      return fetch();
+    }
+
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return cloneJson(entry.value);
+    }
+
+    const value = await fetch();
+    this.entries.set(key, { value: cloneJson(value), expiresAt: Date.now() + this.ttlMs });
+    this.scheduleSave();
+    return value;
+  }
+
+  /**
+   * Remove entries from the cache
+   * @param predicate Optional function selecting the keys to remove; all entries are removed when omitted
+   * @returns The number of entries removed
+   */
+  clear(predicate?: (key: string) => boolean): number {
+    let removed = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (!predicate || predicate(key)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    this.scheduleSave();
+    return removed;
+  }
+
+  /**
+   * Number of entries currently in the cache, including expired ones not yet evicted
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private load(): void {
+    if (!this.persistencePath || !fs.existsSync(this.persistencePath)) {
+      return;
+    }
+
+    try {
+      const file: CacheFile = JSON.parse(fs.readFileSync(this.persistencePath, 'utf8'));
+      // Ignore files written for another organization
+      if (file.organizationUrl !== this.organizationUrl) {
+        return;
+      }
+
+      const now = Date.now();
+      for (const [key, entry] of Object.entries(file.entries || {})) {
+        if (entry.expiresAt > now) {
+          this.entries.set(key, entry);
+        }
+      }
+    } catch (error) {
+      console.error(`Ignoring unreadable metadata cache file '${this.persistencePath}':`, error);
+    }
+  }
+
+  /**
+   * Write pending changes to the persistence file now instead of waiting for the delayed save
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      this.queueSave();
+    }
+    await this.saving;
+  }
+
+  private scheduleSave(): void {
+    if (!this.persistencePath || this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.queueSave();
+    }, SAVE_DELAY_MS);
+  }
+
+  // Saves run one after another so two writes never interleave in the file
+  private queueSave(): void {
+    this.saving = this.saving.then(() => this.save());
+  }
+
+  private async save(): Promise<void> {
+    if (!this.persistencePath) {
+      return;
+    }
+
+    const file: CacheFile = {
+      organizationUrl: this.organizationUrl,
+      entries: Object.fromEntries(this.entries),
+    };
+
+    try {
+      // Write to a temporary file first, so an interrupted save doesn't leave a truncated cache file
+      const temporaryPath = `${this.persistencePath}.tmp`;
+      await fs.promises.mkdir(path.dirname(this.persistencePath), { recursive: true });
+      await fs.promises.writeFile(temporaryPath, JSON.stringify(file));
+      await fs.promises.rename(temporaryPath, this.persistencePath);
+    } catch (error) {
+      console.error(`Failed to write metadata cache file '${this.persistencePath}':`, error);
+    }
+  }
+}
+
+function cloneJson<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
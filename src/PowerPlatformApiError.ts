@@ -0,0 +1,48 @@
+import axios from 'axios';
+
+/**
+ * Error thrown when a request to the PowerPlatform API fails.
+ * Carries the HTTP status and the Dataverse error code and message so callers can act on them.
+ */
+export class PowerPlatformApiError extends Error {
+  readonly status?: number; // HTTP status, undefined for network errors and timeouts
+  readonly code?: string; // Dataverse error code (e.g., '0x80060888')
+  readonly dataverseMessage: string; // The error message returned by Dataverse
+  readonly method: string;
+  readonly url: string;
+
+  constructor(options: { status?: number, code?: string, dataverseMessage: string, method: string, url: string }) {
+    const statusText = options.status ? `HTTP ${options.status}` : 'no response';
+    const codeText = options.code ? `, ${options.code}` : '';
+    super(`PowerPlatform API request failed (${statusText}${codeText}): ${options.dataverseMessage}`);
+    this.name = 'PowerPlatformApiError';
+    this.status = options.status;
+    this.code = options.code;
+    this.dataverseMessage = options.dataverseMessage;
+    this.method = options.method;
+    this.url = options.url;
+  }
+
+  /**
+   * Create a PowerPlatformApiError from an error thrown by axios
+   * @param error The error thrown by the request
+   * @param method The HTTP method of the request
+   * @param url The request URL
+   */
+  static fromRequestError(error: unknown, method: string, url: string): PowerPlatformApiError {
+    if (axios.isAxiosError(error) && error.response) {
+      const body = error.response.data;
+      const dataverseError = body && typeof body === 'object' ? body.error : undefined;
+      return new PowerPlatformApiError({
+        status: error.response.status,
+        code: dataverseError?.code,
+        dataverseMessage: dataverseError?.message || error.response.statusText || error.message,
+        method,
+        url,
+      });
+    }
+
+    const message = axios.isAxiosError(error) && error.code ? `${error.code}: ${error.message}` : String((error as any)?.message || error);
+    return new PowerPlatformApiError({ dataverseMessage: message, method, url });
+  }
+}
@@ -1,11 +1,28 @@
-import { ConfidentialClientApplication } from '@azure/msal-node';
-import axios from 'axios';
+import axios, { AxiosRequestConfig, AxiosResponse, Method } from 'axios';
+import { ConcurrencyLimiter } from './ConcurrencyLimiter.js';
+import { createCredentialProvider, CredentialOptions, CredentialProvider } from './credentials.js';
+import { MetadataCache } from './MetadataCache.js';
+import { AuthenticationError } from './AuthenticationError.js';
+import { PowerPlatformApiError } from './PowerPlatformApiError.js';
+import { findSimilarNames } from './stringMatching.js';
+import { extractPagingCookie, formatAggregateRows, parseFetchXml, setFetchXmlPaging } from './fetchXml.js';
+import { FormLayout, parseFormXml } from './formXml.js';
+import { parseViewDefinition, ViewDefinition } from './viewDefinition.js';
+import { FlowDefinitionSummary, getFlowTriggerEntity, parseFlowClientData } from './flowDefinition.js';
+import { formatRecord } from './recordFormatting.js';
+import { AuditAttributeChange, parseAuditChangeData } from './auditHistory.js';
+import type { EntitySchemaSnapshot, RelationshipSnapshot } from './schemaDiff.js';
+import { getSolutionComponentTypeName, SOLUTION_COMPONENT_NAME_SOURCES } from './solutionComponents.js';
 
-export interface PowerPlatformConfig {
+export interface PowerPlatformConfig extends CredentialOptions {
   organizationUrl: string;
-  clientId: string;
-  clientSecret: string;
-  tenantId: string;
+  credentialProvider?: CredentialProvider; // Overrides authMethod, e.g. to inject a fake token in tests
+  enableWrite?: boolean; // Allow create/update/delete operations (default: false)
+  metadataCacheTtlSeconds?: number; // How long metadata responses are cached (default: 3600, 0 disables caching)
+  metadataCachePath?: string; // Optional file the metadata cache is persisted to between runs
+  maxRetries?: number; // Retries for throttled (429) and transient (502/503/504, network) failures (default: 3)
+  requestTimeoutMs?: number; // Timeout for a single request attempt (default: 120000)
+  maxConcurrentRequests?: number; // Maximum number of requests in flight at once (default: 10)
 }
 
 // Interface for API responses with value collections
@@ -14,23 +31,418 @@ export interface ApiCollectionResponse<T> {
   [key: string]: any; // For any additional properties
 }
 
+// A single $orderby clause
+export interface OrderByClause {
+  attribute: string;
+  descending?: boolean;
+}
+
+// A single $expand clause with its nested query options
+export interface ExpandClause {
+  navigationProperty: string;
+  select?: string[];
+  filter?: string;
+  orderBy?: OrderByClause[];
+  top?: number;
+}
+
+// Options controlling the shape of queryRecords results and how they are paged
+export interface QueryRecordsOptions {
+  select?: string[]; // Attributes to return ($select); lookups may use the _name_value form
+  orderBy?: OrderByClause[]; // Sort order ($orderby)
+  expand?: ExpandClause[]; // Related records to include ($expand)
+  count?: boolean; // Include the total number of matching records ($count)
+  pageSize?: number; // Records requested per page via Prefer: odata.maxpagesize (default: maxRecords, up to 5000)
+  continuationToken?: string; // Token returned by a previous query to resume from the next page
+  raw?: boolean; // Return records as sent by the Web API instead of with formatted values and resolved lookups (ignored with continuationToken, which keeps the original setting)
+}
+
+// Options controlling the shape of getRecord results
+export interface GetRecordOptions {
+  raw?: boolean; // Return the record as sent by the Web API instead of with formatted values and resolved lookups
+}
+
+// Interface for query results that may continue on a later page
+export interface QueryRecordsResponse<T> extends ApiCollectionResponse<T> {
+  continuationToken?: string; // Present when more records are available
+}
+
+// A value/label pair of a choice (option set) column
+export interface AttributeOption {
+  value: number;
+  label: string;
+  state?: number; // For status reasons, the state they belong to
+}
+
+// Detailed attribute metadata as returned by getEntityAttributeDetails
+export interface AttributeDetails {
+  logicalName: string;
+  displayName: string;
+  description?: string;
+  attributeType: string; // e.g. 'String', 'Lookup', 'Picklist', 'MultiSelectPicklist', 'Money'
+  requiredLevel: string; // 'None', 'Recommended', 'ApplicationRequired' or 'SystemRequired'
+  isPrimaryId: boolean;
+  isPrimaryName: boolean;
+  isCustom: boolean;
+  isValidForCreate: boolean;
+  isValidForUpdate: boolean;
+  maxLength?: number; // String and memo columns
+  format?: string; // e.g. 'Email', 'Url', 'DateOnly, UserLocal'
+  targets?: string[]; // Entities a lookup can point to
+  options?: AttributeOption[]; // Picklist, multi-select, state, status and boolean columns
+  optionSetName?: string; // Global option set used by a choice column
+}
+
+// Summary of an entity as returned by listEntities
+export interface EntitySummary {
+  logicalName: string;
+  entitySetName: string; // Plural name used in record URLs (e.g., 'accounts')
+  displayName: string;
+  isCustom: boolean;
+  isActivity: boolean;
+  metadataId: string;
+}
+
+// Filters for listEntities
+export interface EntityListOptions {
+  search?: string; // Fuzzy match against logical, entity set and display names
+  isCustom?: boolean; // Only custom (true) or system (false) entities
+  isActivity?: boolean; // Only activity (true) or non-activity (false) entities
+  solutionUniqueName?: string; // Only entities that are components of this solution
+  maxResults?: number;
+}
+
+// Interface for FetchXML query results
+export interface FetchXmlResponse {
+  entityName: string; // Logical name of the queried entity
+  aggregate: boolean; // Whether the rows are aggregate results
+  value: any[]; // The records, or tidy rows for aggregate queries
+  moreRecords: boolean; // Whether records beyond maxRecords were left unread
+}
+
+// One step from an entity to a related entity, as used in $expand or a FetchXML link-entity
+export interface RelationshipHop {
+  from: string; // Logical name of the entity the step starts at
+  to: string; // Logical name of the related entity
+  relationshipSchemaName: string;
+  relationshipType: 'OneToMany' | 'ManyToOne' | 'ManyToMany';
+  navigationProperty: string; // Navigation property on 'from' to $expand
+  fromAttribute: string; // Join column on 'from' (for N:N, on the intersect entity)
+  toAttribute: string; // Join column on 'to' (for N:N, on the intersect entity)
+  intersectEntity?: string; // Logical name of the intersect entity of N:N relationships
+}
+
+// A plugin assembly with its plugin types, as returned by listPluginAssemblies
+export interface PluginAssemblySummary {
+  pluginAssemblyId: string;
+  name: string;
+  version: string;
+  isolationMode: string; // 'None' or 'Sandbox'
+  isManaged: boolean;
+  types: { pluginTypeId: string, typeName: string, isWorkflowActivity: boolean }[];
+}
+
+// A registered plugin step, as returned by getPluginSteps
+export interface PluginStepSummary {
+  stepId: string;
+  name: string;
+  message: string; // e.g. 'Create', 'Update'
+  entity?: string; // Logical name of the entity the step is filtered to, unset for all entities
+  stage: string; // 'PreValidation', 'PreOperation', 'MainOperation' or 'PostOperation'
+  mode: string; // 'Synchronous' or 'Asynchronous'
+  rank: number; // Execution order within the stage
+  enabled: boolean;
+  filteringAttributes: string[]; // Update steps only fire when one of these changes; empty means any attribute
+  pluginType?: string;
+  assembly?: string;
+  images: { name: string, alias: string, type: string, attributes: string[] }[];
+}
+
+// Filters for getPluginSteps
+export interface PluginStepFilter {
+  entityName?: string; // Logical name of the entity
+  messageName?: string; // e.g. 'Create', 'Update', 'Delete'
+  includeHidden?: boolean; // Include the internal steps of the platform (default: false)
+}
+
+// Filters for getPluginTraceLogs
+export interface PluginTraceLogFilter {
+  typeName?: string; // Part of the plugin type name
+  correlationId?: string;
+  since?: string; // ISO timestamp
+  until?: string; // ISO timestamp
+  maxRecords?: number; // Default: 20
+}
+
+// A plugin trace log entry, as returned by getPluginTraceLogs
+export interface PluginTraceLogSummary {
+  createdOn: string;
+  typeName: string;
+  message: string;
+  entity: string;
+  mode: string; // 'Synchronous' or 'Asynchronous'
+  depth: number; // 1 for the operation a user started, higher for operations triggered by plugins
+  correlationId: string;
+  requestId: string;
+  durationMs: number;
+  messageBlock?: string; // Trace output written by the plugin
+  exceptionDetails?: string;
+}
+
+// A classic workflow, cloud flow or other process, as returned by listWorkflows
+export interface WorkflowSummary {
+  workflowId: string;
+  name: string;
+  category: string; // e.g. 'Workflow', 'Cloud Flow', 'Business Rule'
+  entity?: string; // Logical name of the entity the process runs on or is triggered by
+  state: string; // 'Draft', 'Activated' or 'Suspended'
+  description?: string;
+  modifiedOn: string;
+  mode?: string; // Classic workflows: 'Background' or 'Real-time'
+  triggers?: { onCreate: boolean, onDelete: boolean, onUpdateAttributes: string[], onDemand: boolean }; // Classic workflows
+  flow?: FlowDefinitionSummary; // Cloud flows: the parsed definition
+  lastRun?: { status: string, startedOn?: string, completedOn?: string, errorMessage?: string }; // From flowsessions, where available
+}
+
+// Filters for listWorkflows
+export interface WorkflowFilter {
+  entityName?: string; // Only processes on or triggered by this entity
+  categories?: number[]; // Workflow categories (default: classic workflows and cloud flows)
+  includeLastRun?: boolean; // Look up the last run of each process in flowsessions (default: false)
+}
+
+// Summary of a form as returned by listForms
+export interface FormSummary {
+  formId: string;
+  name: string;
+  type: string; // e.g. 'Main', 'Quick Create', 'Quick View', 'Card'
+  isDefault: boolean;
+  active: boolean;
+  description?: string;
+}
+
+// Summary of a view as returned by listViews
+export interface ViewSummary {
+  viewId: string;
+  name: string;
+  viewType: ViewType;
+  queryType?: string; // System views: e.g. 'Public', 'Quick Find', 'Lookup', 'Associated'
+  isDefault: boolean;
+}
+
+// System views are savedqueries; personal views are userqueries
+export type ViewType = 'system' | 'personal';
+
+// Summary of a security role as returned by listSecurityRoles
+export interface SecurityRoleSummary {
+  roleId: string;
+  name: string;
+  businessUnit?: string;
+  isManaged: boolean;
+}
+
+// Access levels of a privilege, from narrowest to widest
+export type AccessLevel = 'User' | 'Business Unit' | 'Parent: Child Business Unit' | 'Organization';
+
+// Privileges of a role or user, per entity and privilege type (Create, Read, Write, Delete, Append, AppendTo, Assign, Share)
+export interface PrivilegeMatrix {
+  entities: { entity: string, privileges: Record<string, AccessLevel> }[];
+  miscellaneous: { name: string, accessLevel: AccessLevel }[]; // Privileges not tied to an entity, such as prvExportToExcel
+}
+
+// Roles and teams of a user as returned by getUserSecurity
+export interface UserSecuritySummary {
+  userId: string;
+  fullName: string;
+  domainName: string;
+  businessUnit?: string;
+  isDisabled: boolean;
+  roles: { roleId: string, name: string, businessUnit?: string }[];
+  teams: { teamId: string, name: string, teamType: string, roles: string[] }[];
+}
+
+// Answer to whether a user can access an entity or record, as returned by checkUserAccess
+export interface UserAccessResult {
+  userId: string;
+  entity: string;
+  recordId?: string;
+  canRead: boolean;
+  canWrite: boolean;
+  canDelete: boolean;
+  accessRights: string[]; // Record: the rights on the record; entity: privilege types the user has at any level
+  accessLevels?: Record<string, AccessLevel>; // Entity checks: the widest level per privilege type, from user and team roles
+}
+
+// Filters for getRecordAuditHistory
+export interface AuditHistoryFilter {
+  attributes?: string[]; // Only changes to these attributes (logical names)
+  since?: string; // ISO timestamp
+  until?: string; // ISO timestamp
+  maxRecords?: number; // Default: 50
+}
+
+// An audit history entry of a record, as returned by getRecordAuditHistory
+export interface AuditEntry {
+  auditId: string;
+  createdOn: string;
+  action: string; // e.g. 'Create', 'Update', 'Delete', 'Assign'
+  user?: { id: string, name?: string };
+  changes?: AuditAttributeChange[]; // Decoded before and after values
+  changeData?: string; // The raw changedata of entries in the legacy format, which can't be decoded
+}
+
+// Summary of a solution as returned by listSolutions
+export interface SolutionSummary {
+  solutionId: string;
+  uniqueName: string;
+  friendlyName: string;
+  version: string;
+  isManaged: boolean;
+  installedOn?: string;
+  publisher?: {
+    uniqueName: string;
+    friendlyName: string;
+    customizationPrefix: string;
+  };
+}
+
+// Summary of a publisher as returned by listPublishers
+export interface PublisherSummary {
+  publisherId: string;
+  uniqueName: string;
+  friendlyName: string;
+  customizationPrefix: string; // Prefix of the schema names of new components (e.g., 'contoso')
+  optionValuePrefix: number; // Prefix of the values of new choice options (e.g., 10000)
+  description?: string;
+}
+
+// Components of one type within a solution
+export interface SolutionComponentGroup {
+  componentType: number;
+  componentTypeName: string; // e.g. 'Entity', 'Form', 'Plugin Step'
+  components: { objectId: string, name?: string }[];
+}
+
+// Options for importSolution
+export interface ImportSolutionOptions {
+  overwriteUnmanagedCustomizations?: boolean; // Overwrite unmanaged changes to components in the solution (default: false)
+  publishWorkflows?: boolean; // Activate processes included in the solution (default: true)
+  pollIntervalMs?: number; // How often the import job is checked (default: 5000)
+  timeoutMs?: number; // How long to wait for the import to finish (default: 45000)
+}
+
+// Outcome of a solution import
+export interface ImportSolutionResult {
+  asyncOperationId: string;
+  importJobId: string;
+  status: 'Succeeded' | 'Failed' | 'Canceled' | 'InProgress'; // InProgress while the import is still running
+  message?: string; // Error details of failed imports
+  progress?: number; // Percentage reported by the import job
+}
+
+// Dataverse never returns more than 5000 records per page
+const MAX_PAGE_SIZE = 5000;
+
+// Asks the Web API for option labels, lookup targets and formatted currency and date values
+const INCLUDE_ANNOTATIONS_PREFERENCE = 'odata.include-annotations="*"';
+
+// Solution columns returned by the solution tools, with their publisher
+const SOLUTION_SELECT = 'solutionid,uniquename,friendlyname,version,ismanaged,installedon';
+const SOLUTION_PUBLISHER_EXPAND = 'publisherid($select=uniquename,friendlyname,customizationprefix)';
+
+// Access levels by the PrivilegeDepth names returned by the privilege functions, narrowest first
+const ACCESS_LEVELS: Record<string, AccessLevel> = {
+  Basic: 'User',
+  Local: 'Business Unit',
+  Deep: 'Parent: Child Business Unit',
+  Global: 'Organization',
+};
+const TEAM_TYPES: Record<number, string> = { 0: 'Owner', 1: 'Access', 2: 'Security Group', 3: 'Office Group' };
+
+// Names of form types and system view query types by option value
+const FORM_TYPES: Record<number, string> = {
+  0: 'Dashboard',
+  2: 'Main',
+  5: 'Mobile',
+  6: 'Quick View',
+  7: 'Quick Create',
+  11: 'Card',
+  12: 'Main - Interactive experience',
+};
+const VIEW_QUERY_TYPES: Record<number, string> = {
+  0: 'Public',
+  1: 'Advanced Find',
+  2: 'Associated',
+  4: 'Quick Find',
+  64: 'Lookup',
+};
+
+// Names of plugin step stages, modes and image types by option value
+const PLUGIN_STEP_STAGES: Record<number, string> = { 10: 'PreValidation', 20: 'PreOperation', 30: 'MainOperation', 40: 'PostOperation' };
+const PLUGIN_STEP_MODES: Record<number, string> = { 0: 'Synchronous', 1: 'Asynchronous' };
+const PLUGIN_IMAGE_TYPES: Record<number, string> = { 0: 'PreImage', 1: 'PostImage', 2: 'Both' };
+
+// Names of the categories of the workflow table
+const WORKFLOW_CATEGORIES: Record<number, string> = {
+  0: 'Workflow',
+  1: 'Dialog',
+  2: 'Business Rule',
+  3: 'Action',
+  4: 'Business Process Flow',
+  5: 'Cloud Flow',
+  6: 'Desktop Flow',
+};
+const CLOUD_FLOW_CATEGORY = 5;
+const WORKFLOW_STATES: Record<number, string> = { 0: 'Draft', 1: 'Activated', 2: 'Suspended' };
+const WORKFLOW_SELECT = 'workflowid,name,category,primaryentity,statecode,description,modifiedon,mode,triggeroncreate,triggerondelete,triggeronupdateattributelist,ondemand,clientdata';
+
+// Solution import polling defaults
+// MCP clients give up on a tool call after about a minute, so by default the import is only briefly waited for
+const DEFAULT_IMPORT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_IMPORT_TIMEOUT_MS = 45 * 1000;
+
+// Number of IDs per request when resolving solution component names
+const NAME_LOOKUP_BATCH_SIZE = 50;
+
+// Entity metadata rarely changes, so cache it for an hour by default
+const DEFAULT_METADATA_CACHE_TTL_SECONDS = 3600;
+
+// Request policy defaults
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_REQUEST_TIMEOUT_MS = 120000;
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 10;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_BACKOFF_DELAY_MS = 30000;
+const MAX_RETRY_AFTER_MS = 60000; // Longer Retry-After values fail the request instead of waiting
+
+// Record IDs, as accepted where an ID or a name can be given
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Methods that are safe to repeat when the outcome of a failed attempt is unknown
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'DELETE'];
+
 export class PowerPlatformService {
   private config: PowerPlatformConfig;
-  private msalClient: ConfidentialClientApplication;
+  private credentialProvider: CredentialProvider;
+  private metadataCache: MetadataCache;
+  private requestLimiter: ConcurrencyLimiter;
   private accessToken: string | null = null;
   private tokenExpirationTime: number = 0;
 
   constructor(config: PowerPlatformConfig) {
     this.config = config;
     
-    // Initialize MSAL client
-    this.msalClient = new ConfidentialClientApplication({
-      auth: {
-        clientId: this.config.clientId,
-        clientSecret: this.config.clientSecret,
-        authority: `https://login.microsoftonline.com/${this.config.tenantId}`,
-      }
-    });
+    // Use the injected credential provider, or build one for the configured authentication method
+    this.credentialProvider = config.credentialProvider || createCredentialProvider(config);
+    
+    this.metadataCache = new MetadataCache(
+      config.organizationUrl,
+      config.metadataCacheTtlSeconds ?? DEFAULT_METADATA_CACHE_TTL_SECONDS,
+      config.metadataCachePath
+    );
+    
+    // Shared by all requests so concurrent tool calls stay within Dataverse service protection limits
+    this.requestLimiter = new ConcurrencyLimiter(config.maxConcurrentRequests ?? DEFAULT_MAX_CONCURRENT_REQUESTS);
   }
 
   /**
@@ -46,15 +458,9 @@ export class PowerPlatformService {
 
     try {
       // Get a new token
-      const result = await this.msalClient.acquireTokenByClientCredential({
-        scopes: [`${this.config.organizationUrl}/.default`],
-      });
-
-      if (!result || !result.accessToken) {
-        throw new Error('Failed to acquire access token');
-      }
+      const result = await this.credentialProvider.getAccessToken(this.config.organizationUrl);
 
-      this.accessToken = result.accessToken;
+      this.accessToken = result.token;
       
       // Set expiration time (subtract 5 minutes to refresh early)
       if (result.expiresOn) {
@@ -64,33 +470,1108 @@ export class PowerPlatformService {
       return this.accessToken;
     } catch (error) {
       console.error('Error acquiring access token:', error);
-      throw new Error('Authentication failed');
+      throw new AuthenticationError(error);
     }
   }
 
   /**
    * Make an authenticated request to the PowerPlatform API
+   * @throws PowerPlatformApiError when the request fails
+   * @param endpoint The API endpoint relative to the organization URL
+   * @param method The HTTP method (default: GET)
+   * @param data The request body for POST/PATCH requests
+   * @param headers Additional headers to send with the request
    */
-  private async makeRequest<T>(endpoint: string): Promise<T> {
-    try {
-      const token = await this.getAccessToken();
+  private async makeRequest<T>(endpoint: string, method: Method = 'GET', data?: any, headers: Record<string, string> = {}): Promise<T> {
+    const url = `${this.config.organizationUrl}/${endpoint}`;
 
-      const response = await axios({
-        method: 'GET',
-        url: `${this.config.organizationUrl}/${endpoint}`,
+    try {
+      const response = await this.sendWithRetry({
+        method,
+        url,
+        data,
+        timeout: this.config.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Accept': 'application/json',
           'OData-MaxVersion': '4.0',
-          'OData-Version': '4.0'
+          'OData-Version': '4.0',
+          ...(data !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...headers
+        }
+      });
+
+      return response.data as T;
+    } catch (error) {
+      // No request was sent, so there is no status or response to report
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
+      const apiError = PowerPlatformApiError.fromRequestError(error, method, url);
+      console.error(`${apiError.message} [${method} ${url}]`);
+      throw apiError;
+    }
+  }
+
+  /**
+   * Send a request through the concurrency limiter, retrying throttled and transient failures
+   * with exponential backoff. The access token is added on each attempt, since it may expire while waiting.
+   * @param request The axios request configuration, without the Authorization header
+   */
+  private async sendWithRetry(request: AxiosRequestConfig): Promise<AxiosResponse> {
+    const maxRetries = this.config.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+      const token = await this.getAccessToken();
+      try {
+        return await this.requestLimiter.run(() => axios({
+          ...request,
+          headers: { ...request.headers, 'Authorization': `Bearer ${token}` },
+        }));
+      } catch (error) {
+        const delay = attempt < maxRetries ? this.getRetryDelay(error, request.method, attempt) : null;
+        if (delay === null) {
+          throw error;
+        }
+
+        console.error(`PowerPlatform API request to ${request.url} failed (${this.describeFailure(error)}), retrying in ${delay}ms (retry ${attempt + 1} of ${maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Get how long to wait before retrying a failed request
+   * @param error The error of the failed attempt
+   * @param method The HTTP method of the request
+   * @param attempt The zero-based number of the failed attempt
+   * @returns The delay in milliseconds, or null if the request should not be retried
+   */
+  private getRetryDelay(error: unknown, method: string | undefined, attempt: number): number | null {
+    if (!axios.isAxiosError(error)) {
+      return null;
+    }
+
+    const status = error.response?.status;
+    const idempotent = IDEMPOTENT_METHODS.includes((method || 'GET').toUpperCase());
+
+    // Service protection limits (429) reject the request before it runs, so any method can be retried.
+    // A 503 may come after a write was applied, so like other transient failures it is only retried for idempotent methods
+    const retryable = status === 429
+      || (idempotent && (status === 502 || status === 503 || status === 504 || status === undefined));
+
+    if (!retryable) {
+      return null;
+    }
+
+    const retryAfter = this.parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfter !== null) {
+      // Waiting longer would hold up the tool call for minutes, so report the throttling instead
+      return retryAfter <= MAX_RETRY_AFTER_MS ? retryAfter : null;
+    }
+
+    const backoff = Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, attempt), MAX_BACKOFF_DELAY_MS);
+    return backoff + Math.floor(Math.random() * BASE_RETRY_DELAY_MS / 4);
+  }
+
+  /**
+   * Parse a Retry-After header given either in seconds or as an HTTP date
+   * @returns The delay in milliseconds, or null if the header is missing or invalid
+   */
+  private parseRetryAfter(value: unknown): number | null {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return null;
+    }
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(String(value));
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Describe why a request attempt failed, for logging
+   */
+  private describeFailure(error: unknown): string {
+    if (axios.isAxiosError(error)) {
+      return error.response ? `HTTP ${error.response.status}` : (error.code || error.message);
+    }
+    return String(error);
+  }
+
+  /**
+   * Make a GET request for metadata, served from the metadata cache when possible
+   * @param endpoint The API endpoint relative to the organization URL, also used as the cache key
+   */
+  private async makeMetadataRequest<T>(endpoint: string): Promise<T> {
+    return this.metadataCache.getOrFetch(endpoint, () => this.makeRequest<T>(endpoint));
+  }
+
+  /**
+   * Clear cached metadata
+   * @param entityName Optional logical name of the entity whose metadata should be cleared; clears everything when omitted
+   * @returns The number of cache entries removed
+   */
+  clearMetadataCache(entityName?: string): number {
+    if (!entityName) {
+      return this.metadataCache.clear();
+    }
+    // The entity lists include the entity too, so they are cleared along with its own metadata
+    return this.metadataCache.clear(key => key.includes(`(LogicalName='${entityName}')`) || key.startsWith('api/data/v9.2/EntityDefinitions?'));
+  }
+
+  /**
+   * Get actionable hints for a failed request, e.g. the valid attribute names when a property wasn't found
+   * @param error The error thrown by the failed request
+   * @returns Hints to show alongside the error
+   */
+  async getErrorHints(error: PowerPlatformApiError): Promise<string[]> {
+    const hints: string[] = [];
+    
+    const missingProperty = error.dataverseMessage.match(/Could not find a property named '([^']+)' on type 'Microsoft\.Dynamics\.CRM\.([^']+)'/);
+    if (missingProperty) {
+      const [, propertyName, entityName] = missingProperty;
+      try {
+        const attributeNames = await this.getValidAttributeNames(entityName);
+        const similar = findSimilarNames(propertyName, attributeNames);
+        const validNames = [...attributeNames].filter(name => !name.startsWith('_'));
+        if (similar.length) {
+          hints.push(`Did you mean: ${similar.join(', ')}?`);
+        }
+        hints.push(`Valid attributes of '${entityName}': ${validNames.sort().join(', ')}`);
+        hints.push(`Lookup columns are filtered and selected as _<attribute>_value (e.g. _parentcustomerid_value).`);
+      } catch {
+        hints.push(`Use get-entity-attributes for '${entityName}' to list its valid attribute names.`);
+      }
+      return hints;
+    }
+    
+    if (/Resource not found for the segment/i.test(error.dataverseMessage)) {
+      hints.push('A segment of the URL is not a known entity set or navigation property. Use search-entities to find the right entity name.');
+    }
+    
+    switch (error.status) {
+      case 401:
+        hints.push('The access token was rejected. Check the credentials configured for this environment.');
+        break;
+      case 403:
+        hints.push('The signed-in user or application lacks the privileges for this operation. Check its security roles.');
+        break;
+      case 404:
+        if (!hints.length) {
+          hints.push('The record or resource does not exist. Check the ID and the entity set name.');
         }
+        break;
+      case 412:
+        hints.push('The record was changed since it was read. Get the record again and retry with its current @odata.etag.');
+        break;
+      case 429:
+        hints.push('Dataverse service protection limits were exceeded. Wait a moment or reduce the size of the request.');
+        break;
+    }
+    
+    if (error.status === undefined) {
+      hints.push('No response was received. Check the organization URL and network connectivity, or retry later.');
+    }
+    
+    return hints;
+  }
+
+  /**
+   * Ensure write operations are enabled for this service
+   */
+  private assertWriteEnabled(operation: string): void {
+    // Only a real true enables writes, so a mistyped setting such as the string "false" keeps them off
+    if (this.config.enableWrite !== true) {
+      throw new Error(`${operation} is disabled. Set POWERPLATFORM_ENABLE_WRITE=true (or enableWrite in the environment config) to enable write operations.`);
+    }
+  }
+
+  /**
+   * List entities, optionally filtered and ranked by a fuzzy name search
+   * @param options Filters to apply
+   * @returns The matching entities, best search matches first or sorted by logical name
+   */
+  async listEntities(options: EntityListOptions = {}): Promise<EntitySummary[]> {
+    const response = await this.makeMetadataRequest<ApiCollectionResponse<any>>(`api/data/v9.2/EntityDefinitions?$select=MetadataId,LogicalName,EntitySetName,DisplayName,IsCustomEntity,IsActivity`);
+    
+    let entities: EntitySummary[] = response.value.map((entity: any) => ({
+      logicalName: entity.LogicalName,
+      entitySetName: entity.EntitySetName,
+      displayName: entity.DisplayName?.UserLocalizedLabel?.Label || entity.LogicalName,
+      isCustom: entity.IsCustomEntity === true,
+      isActivity: entity.IsActivity === true,
+      metadataId: entity.MetadataId,
+    }));
+    
+    if (options.isCustom !== undefined) {
+      entities = entities.filter(entity => entity.isCustom === options.isCustom);
+    }
+    
+    if (options.isActivity !== undefined) {
+      entities = entities.filter(entity => entity.isActivity === options.isActivity);
+    }
+    
+    if (options.solutionUniqueName) {
+      const solutionEntityIds = await this.getSolutionEntityIds(options.solutionUniqueName);
+      entities = entities.filter(entity => solutionEntityIds.has(entity.metadataId.toLowerCase()));
+    }
+    
+    if (options.search) {
+      entities = this.rankEntitiesBySearch(entities, options.search);
+    } else {
+      entities.sort((a, b) => a.logicalName.localeCompare(b.logicalName));
+    }
+    
+    return options.maxResults ? entities.slice(0, options.maxResults) : entities;
+  }
+
+  /**
+   * Get the metadata IDs of the entities that are components of a solution
+   * @param solutionUniqueName The unique name of the solution
+   */
+  private async getSolutionEntityIds(solutionUniqueName: string): Promise<Set<string>> {
+    const solutionId = await this.getSolutionId(solutionUniqueName);
+    
+    // Component type 1 is Entity
+    const components = await this.getAllRecords<any>(`api/data/v9.2/solutioncomponents?$select=objectid&$filter=_solutionid_value eq ${solutionId} and componenttype eq 1`);
+    return new Set(components.map((component: any) => String(component.objectid).toLowerCase()));
+  }
+
+  /**
+   * Get the ID of a solution
+   * @param solutionUniqueName The unique name of the solution
+   */
+  private async getSolutionId(solutionUniqueName: string): Promise<string> {
+    const solutions = await this.makeRequest<ApiCollectionResponse<any>>(`api/data/v9.2/solutions?$select=solutionid&$filter=uniquename eq '${solutionUniqueName.replace(/'/g, "''")}'`);
+    if (!solutions.value?.length) {
+      throw new Error(`No solution found with unique name '${solutionUniqueName}'`);
+    }
+    return solutions.value[0].solutionid;
+  }
+
+  /**
+   * List the solutions installed in the environment
+   * @param includeManaged Whether to include managed solutions (default: true)
+   * @returns The visible solutions, sorted by friendly name
+   */
+  async listSolutions(includeManaged: boolean = true): Promise<SolutionSummary[]> {
+    const filter = includeManaged ? 'isvisible eq true' : 'isvisible eq true and ismanaged eq false';
+    const solutions = await this.getAllRecords<any>(`api/data/v9.2/solutions?$select=${SOLUTION_SELECT}&$filter=${encodeURIComponent(filter)}&$expand=${SOLUTION_PUBLISHER_EXPAND}&$orderby=friendlyname`);
+    return solutions.map(solution => this.toSolutionSummary(solution));
+  }
+
+  /**
+   * List the solution publishers
+   * @returns The publishers, sorted by friendly name
+   */
+  async listPublishers(): Promise<PublisherSummary[]> {
+    const publishers = await this.getAllRecords<any>(`api/data/v9.2/publishers?$select=publisherid,uniquename,friendlyname,customizationprefix,customizationoptionvalueprefix,description&$orderby=friendlyname`);
+    return publishers.map(publisher => ({
+      publisherId: publisher.publisherid,
+      uniqueName: publisher.uniquename,
+      friendlyName: publisher.friendlyname,
+      customizationPrefix: publisher.customizationprefix,
+      optionValuePrefix: publisher.customizationoptionvalueprefix,
+      description: publisher.description || undefined,
+    }));
+  }
+
+  /**
+   * Get the components of a solution grouped by type, with names resolved where the type supports it
+   * @param solutionUniqueName The unique name of the solution
+   * @returns The component groups, sorted by type name
+   */
+  async getSolutionComponents(solutionUniqueName: string): Promise<SolutionComponentGroup[]> {
+    const solutionId = await this.getSolutionId(solutionUniqueName);
+    const components = await this.getAllRecords<any>(`api/data/v9.2/solutioncomponents?$select=componenttype,objectid&$filter=_solutionid_value eq ${solutionId}`);
+
+    const objectIdsByType = new Map<number, string[]>();
+    for (const component of components) {
+      const objectIds = objectIdsByType.get(component.componenttype) || [];
+      objectIds.push(String(component.objectid).toLowerCase());
+      objectIdsByType.set(component.componenttype, objectIds);
+    }
+
+    const groups: SolutionComponentGroup[] = [];
+    for (const [componentType, objectIds] of objectIdsByType) {
+      const names = await this.getSolutionComponentNames(componentType, objectIds);
+      groups.push({
+        componentType,
+        componentTypeName: getSolutionComponentTypeName(componentType),
+        components: objectIds
+          .map(objectId => ({ objectId, name: names.get(objectId) }))
+          .sort((a, b) => (a.name || a.objectId).localeCompare(b.name || b.objectId)),
       });
+    }
+
+    return groups.sort((a, b) => a.componentTypeName.localeCompare(b.componentTypeName));
+  }
+
+  /**
+   * Resolve the names of solution components of one type
+   * @returns Names by lowercase object ID; empty for types without a known name source
+   */
+  private async getSolutionComponentNames(componentType: number, objectIds: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+
+    // Component type 1 is Entity, whose object ID is the entity's metadata ID
+    if (componentType === 1) {
+      const entities = await this.listEntities();
+      for (const entity of entities) {
+        names.set(entity.metadataId.toLowerCase(), entity.logicalName);
+      }
+      return names;
+    }
+
+    const source = SOLUTION_COMPONENT_NAME_SOURCES[componentType];
+    if (!source) {
+      return names;
+    }
+
+    // Look the names up in batches to keep the URL short
+    for (let i = 0; i < objectIds.length; i += NAME_LOOKUP_BATCH_SIZE) {
+      const batch = objectIds.slice(i, i + NAME_LOOKUP_BATCH_SIZE);
+      const filter = `Microsoft.Dynamics.CRM.In(PropertyName='${source.idAttribute}',PropertyValues=[${batch.map(id => `'${id}'`).join(',')}])`;
+      const records = await this.getAllRecords<any>(`api/data/v9.2/${source.entitySetName}?$select=${source.idAttribute},${source.nameAttribute}&$filter=${encodeURIComponent(filter)}`);
+      for (const record of records) {
+        names.set(String(record[source.idAttribute]).toLowerCase(), record[source.nameAttribute]);
+      }
+    }
+
+    return names;
+  }
+
+  /**
+   * Find the solutions that contain an entity, or one of its attributes
+   * @param entityName The logical name of the entity
+   * @param attributeName Optional logical name of an attribute of the entity
+   * @returns The visible solutions containing the component, sorted by friendly name
+   */
+  async findSolutionsContaining(entityName: string, attributeName?: string): Promise<SolutionSummary[]> {
+    const metadata = attributeName
+      ? await this.getEntityAttribute(entityName, attributeName)
+      : await this.getEntityMetadata(entityName);
+
+    // Component type 1 is Entity, 2 is Attribute
+    const componentType = attributeName ? 2 : 1;
+    const components = await this.getAllRecords<any>(`api/data/v9.2/solutioncomponents?$select=solutioncomponentid&$filter=objectid eq ${metadata.MetadataId} and componenttype eq ${componentType}&$expand=solutionid($select=${SOLUTION_SELECT},isvisible;$expand=${SOLUTION_PUBLISHER_EXPAND})`);
+
+    return components
+      .map(component => component.solutionid)
+      .filter(solution => solution && solution.isvisible)
+      .map(solution => this.toSolutionSummary(solution))
+      .sort((a, b) => a.friendlyName.localeCompare(b.friendlyName));
+  }
+
+  /**
+   * List the plugin assemblies registered in the environment with their plugin types
+   * @returns The visible plugin assemblies, sorted by name
+   */
+  async listPluginAssemblies(): Promise<PluginAssemblySummary[]> {
+    const assemblies = await this.getAllRecords<any>(`api/data/v9.2/pluginassemblies?$select=pluginassemblyid,name,version,isolationmode,ismanaged&$filter=ishidden/Value eq false&$expand=pluginassembly_plugintype($select=plugintypeid,typename,isworkflowactivity)&$orderby=name`);
+    return assemblies.map(assembly => ({
+      pluginAssemblyId: assembly.pluginassemblyid,
+      name: assembly.name,
+      version: assembly.version,
+      // Isolation mode 1 is None, 2 Sandbox
+      isolationMode: assembly.isolationmode === 2 ? 'Sandbox' : 'None',
+      isManaged: assembly.ismanaged === true,
+      types: (assembly.pluginassembly_plugintype || [])
+        .map((type: any) => ({
+          pluginTypeId: type.plugintypeid,
+          typeName: type.typename,
+          isWorkflowActivity: type.isworkflowactivity === true,
+        }))
+        .sort((a: any, b: any) => a.typeName.localeCompare(b.typeName)),
+    }));
+  }
+
+  /**
+   * Get the plugin steps registered for an entity and/or message
+   * @param filter The entity and message to get the steps of
+   * @returns The steps in execution order: by message, stage and rank
+   */
+  async getPluginSteps(filter: PluginStepFilter = {}): Promise<PluginStepSummary[]> {
+    const conditions: string[] = [];
+    if (!filter.includeHidden) {
+      conditions.push('ishidden/Value eq false');
+    }
+    if (filter.entityName) {
+      conditions.push(`sdkmessagefilterid/primaryobjecttypecode eq '${filter.entityName.replace(/'/g, "''")}'`);
+    }
+    if (filter.messageName) {
+      conditions.push(`sdkmessageid/name eq '${filter.messageName.replace(/'/g, "''")}'`);
+    }
+
+    const select = 'sdkmessageprocessingstepid,name,stage,mode,rank,filteringattributes,statecode';
+    const expand = [
+      'sdkmessageid($select=name)',
+      'sdkmessagefilterid($select=primaryobjecttypecode)',
+      'plugintypeid($select=typename,assemblyname)',
+      'sdkmessageprocessingstepid_sdkmessageprocessingstepimage($select=name,entityalias,imagetype,attributes)',
+    ].join(',');
+    const filterQuery = conditions.length ? `&$filter=${encodeURIComponent(conditions.join(' and '))}` : '';
+    const steps = await this.getAllRecords<any>(`api/data/v9.2/sdkmessageprocessingsteps?$select=${select}${filterQuery}&$expand=${expand}`);
+
+    return steps
+      .map((step): PluginStepSummary => ({
+        stepId: step.sdkmessageprocessingstepid,
+        name: step.name,
+        message: step.sdkmessageid?.name,
+        entity: step.sdkmessagefilterid?.primaryobjecttypecode || undefined,
+        stage: PLUGIN_STEP_STAGES[step.stage] || String(step.stage),
+        mode: PLUGIN_STEP_MODES[step.mode] || String(step.mode),
+        rank: step.rank,
+        enabled: step.statecode === 0,
+        filteringAttributes: splitList(step.filteringattributes),
+        pluginType: step.plugintypeid?.typename,
+        assembly: step.plugintypeid?.assemblyname,
+        images: (step.sdkmessageprocessingstepid_sdkmessageprocessingstepimage || []).map((image: any) => ({
+          name: image.name,
+          alias: image.entityalias,
+          type: PLUGIN_IMAGE_TYPES[image.imagetype] || String(image.imagetype),
+          attributes: splitList(image.attributes),
+        })),
+      }))
+      .sort((a, b) => (a.message || '').localeCompare(b.message || '') || stageOrder(a.stage) - stageOrder(b.stage) || a.rank - b.rank);
+  }
+
+  /**
+   * Get recent plugin trace logs, newest first
+   * @param filter Filters for the trace logs
+   * @returns The trace logs
+   */
+  async getPluginTraceLogs(filter: PluginTraceLogFilter = {}): Promise<PluginTraceLogSummary[]> {
+    const conditions: string[] = [];
+    if (filter.typeName) {
+      conditions.push(`contains(typename,'${filter.typeName.replace(/'/g, "''")}')`);
+    }
+    if (filter.correlationId) {
+      conditions.push(`correlationid eq ${filter.correlationId}`);
+    }
+    if (filter.since) {
+      conditions.push(`createdon ge ${filter.since}`);
+    }
+    if (filter.until) {
+      conditions.push(`createdon le ${filter.until}`);
+    }
+
+    const select = 'createdon,typename,messagename,primaryentity,mode,depth,correlationid,requestid,performanceexecutionduration,messageblock,exceptiondetails';
+    const filterQuery = conditions.length ? `&$filter=${encodeURIComponent(conditions.join(' and '))}` : '';
+    const response = await this.makeRequest<ApiCollectionResponse<any>>(`api/data/v9.2/plugintracelogs?$select=${select}${filterQuery}&$orderby=createdon desc&$top=${Math.min(filter.maxRecords || 20, MAX_PAGE_SIZE)}`);
+
+    return response.value.map(log => ({
+      createdOn: log.createdon,
+      typeName: log.typename,
+      message: log.messagename,
+      entity: log.primaryentity,
+      mode: PLUGIN_STEP_MODES[log.mode] || String(log.mode),
+      depth: log.depth,
+      correlationId: log.correlationid,
+      requestId: log.requestid,
+      durationMs: log.performanceexecutionduration,
+      messageBlock: log.messageblock || undefined,
+      exceptionDetails: log.exceptiondetails || undefined,
+    }));
+  }
+
+  /**
+   * List the security roles of the environment. Roles are copied to every business unit,
+   * so only the roles of the root business unit are listed.
+   * @returns The security roles, sorted by name
+   */
+  async listSecurityRoles(): Promise<SecurityRoleSummary[]> {
+    const roles = await this.getAllRecords<any>(`api/data/v9.2/roles?$select=roleid,name,ismanaged&$filter=_parentroleid_value eq null&$expand=businessunitid($select=name)&$orderby=name`);
+    return roles.map(role => ({
+      roleId: role.roleid,
+      name: role.name,
+      businessUnit: role.businessunitid?.name,
+      isManaged: role.ismanaged === true,
+    }));
+  }
+
+  /**
+   * Get the privileges of a security role per entity, with their access levels
+   * @param role The ID or name of the role
+   */
+  async getRolePrivileges(role: string): Promise<{ role: SecurityRoleSummary } & PrivilegeMatrix> {
+    const roleSummary = await this.resolveSecurityRole(role);
+    const response = await this.makeRequest<{ RolePrivileges: any[] }>(`api/data/v9.2/RetrieveRolePrivilegesRole(RoleId=${roleSummary.roleId})`);
+    return {
+      role: roleSummary,
+      ...await this.buildPrivilegeMatrix(response.RolePrivileges || []),
+    };
+  }
+
+  private async resolveSecurityRole(role: string): Promise<SecurityRoleSummary> {
+    const roles = await this.listSecurityRoles();
+    const match = roles.find(candidate => candidate.roleId.toLowerCase() === role.toLowerCase())
+      || roles.find(candidate => candidate.name.toLowerCase() === role.toLowerCase());
+    if (match) {
+      return match;
+    }
+
+    // Users are assigned the copies of roles in their own business unit, which listSecurityRoles leaves out
+    if (GUID_PATTERN.test(role)) {
+      try {
+        const copy = await this.makeRequest<any>(`api/data/v9.2/roles(${role})?$select=roleid,name,ismanaged&$expand=businessunitid($select=name)`);
+        return {
+          roleId: copy.roleid,
+          name: copy.name,
+          businessUnit: copy.businessunitid?.name,
+          isManaged: copy.ismanaged === true,
+        };
+      } catch (error) {
+        if (!(error instanceof PowerPlatformApiError && error.status === 404)) {
+          throw error;
+        }
+      }
+    }
+
+    const suggestions = findSimilarNames(role, roles.map(candidate => candidate.name));
+    throw new Error(`No security role found with ID or name '${role}'.${suggestions.length ? ` Did you mean: ${suggestions.join(', ')}?` : ''}`);
+  }
+
+  /**
+   * Get the roles of a user, including those of the teams the user belongs to
+   * @param user The ID, domain name (e.g., 'someone@contoso.com'), email address or full name of the user
+   */
+  async getUserSecurity(user: string): Promise<UserSecuritySummary> {
+    const userId = await this.resolveSystemUserId(user);
+    const expand = [
+      'businessunitid($select=name)',
+      'systemuserroles_association($select=roleid,name;$expand=businessunitid($select=name))',
+      'teammembership_association($select=teamid,name,teamtype;$expand=teamroles_association($select=name))',
+    ].join(',');
+    const record = await this.makeRequest<any>(`api/data/v9.2/systemusers(${userId})?$select=systemuserid,fullname,domainname,isdisabled&$expand=${expand}`);
+
+    return {
+      userId: record.systemuserid,
+      fullName: record.fullname,
+      domainName: record.domainname,
+      businessUnit: record.businessunitid?.name,
+      isDisabled: record.isdisabled === true,
+      roles: (record.systemuserroles_association || [])
+        .map((role: any) => ({ roleId: role.roleid, name: role.name, businessUnit: role.businessunitid?.name }))
+        .sort((a: any, b: any) => a.name.localeCompare(b.name)),
+      teams: (record.teammembership_association || [])
+        .map((team: any) => ({
+          teamId: team.teamid,
+          name: team.name,
+          teamType: TEAM_TYPES[team.teamtype] || String(team.teamtype),
+          roles: (team.teamroles_association || []).map((role: any) => role.name).sort(),
+        }))
+        .sort((a: any, b: any) => a.name.localeCompare(b.name)),
+    };
+  }
+
+  /**
+   * Check whether a user can read, write or delete an entity's records. With a record ID the
+   * user's actual rights on that record are retrieved with RetrievePrincipalAccess, which accounts
+   * for ownership, sharing and hierarchy; otherwise the privileges of the user's roles are checked.
+   * @param user The ID, domain name, email address or full name of the user
+   * @param entityName The entity set name (e.g., 'accounts') or logical name (e.g., 'account')
+   * @param recordId Optional ID of a record
+   */
+  async checkUserAccess(user: string, entityName: string, recordId?: string): Promise<UserAccessResult> {
+    const userId = await this.resolveSystemUserId(user);
+    const entity = await this.resolveEntity(entityName);
+
+    if (recordId) {
+      const target = encodeURIComponent(JSON.stringify({ '@odata.id': `${entity.entitySetName}(${recordId})` }));
+      const response = await this.makeRequest<{ AccessRights: string }>(`api/data/v9.2/systemusers(${userId})/Microsoft.Dynamics.CRM.RetrievePrincipalAccess(Target=@target)?@target=${target}`);
+      // AccessRights is a flags enum serialized as e.g. 'ReadAccess, WriteAccess'
+      const accessRights = (response.AccessRights || '')
+        .split(',')
+        .map(right => right.trim().replace(/Access$/, ''))
+        .filter(right => right && right !== 'None');
+      return {
+        userId,
+        entity: entity.logicalName,
+        recordId,
+        canRead: accessRights.includes('Read'),
+        canWrite: accessRights.includes('Write'),
+        canDelete: accessRights.includes('Delete'),
+        accessRights,
+      };
+    }
+
+    // RetrieveUserPrivileges includes the privileges the user has through team roles
+    const response = await this.makeRequest<{ RolePrivileges: any[] }>(`api/data/v9.2/systemusers(${userId})/Microsoft.Dynamics.CRM.RetrieveUserPrivileges()`);
+    const matrix = await this.buildPrivilegeMatrix(response.RolePrivileges || []);
+    const accessLevels = matrix.entities.find(entry => entry.entity === entity.logicalName)?.privileges || {};
+    return {
+      userId,
+      entity: entity.logicalName,
+      canRead: 'Read' in accessLevels,
+      canWrite: 'Write' in accessLevels,
+      canDelete: 'Delete' in accessLevels,
+      accessRights: Object.keys(accessLevels),
+      accessLevels,
+    };
+  }
+
+  private async resolveSystemUserId(user: string): Promise<string> {
+    if (GUID_PATTERN.test(user)) {
+      return user;
+    }
+
+    const value = user.replace(/'/g, "''");
+    const filter = `domainname eq '${value}' or internalemailaddress eq '${value}' or fullname eq '${value}'`;
+    const response = await this.makeRequest<ApiCollectionResponse<any>>(`api/data/v9.2/systemusers?$select=systemuserid,fullname,domainname&$filter=${encodeURIComponent(filter)}&$top=2`);
+    if (!response.value.length) {
+      throw new Error(`No user found with domain name, email address or full name '${user}'`);
+    }
+    if (response.value.length > 1) {
+      throw new Error(`More than one user matches '${user}' (${response.value.map((match: any) => match.domainname).join(', ')}). Use the domain name or ID instead.`);
+    }
+    return response.value[0].systemuserid;
+  }
+
+  /**
+   * Group role privileges by entity and privilege type, keeping the widest access level
+   * @param rolePrivileges The RolePrivileges returned by RetrieveRolePrivilegesRole or RetrieveUserPrivileges
+   */
+  private async buildPrivilegeMatrix(rolePrivileges: any[]): Promise<PrivilegeMatrix> {
+    const privilegeIndex = await this.getEntityPrivilegeIndex();
+    const levelOrder = Object.values(ACCESS_LEVELS);
+    const widest = (current: AccessLevel | undefined, depth: string | number): AccessLevel => {
+      // Depth is usually serialized by name, but accept the numeric enum value too
+      const level = (typeof depth === 'number' ? levelOrder[depth] : ACCESS_LEVELS[depth]) || 'User';
+      return current && levelOrder.indexOf(current) >= levelOrder.indexOf(level) ? current : level;
+    };
+
+    const entities = new Map<string, Record<string, AccessLevel>>();
+    const miscellaneous = new Map<string, AccessLevel>();
+    for (const rolePrivilege of rolePrivileges) {
+      const privilege = privilegeIndex.get(String(rolePrivilege.PrivilegeId).toLowerCase());
+      if (privilege) {
+        const privileges = entities.get(privilege.entity) || {};
+        privileges[privilege.privilegeType] = widest(privileges[privilege.privilegeType], rolePrivilege.Depth);
+        entities.set(privilege.entity, privileges);
+      } else {
+        const name = rolePrivilege.PrivilegeName || rolePrivilege.PrivilegeId;
+        miscellaneous.set(name, widest(miscellaneous.get(name), rolePrivilege.Depth));
+      }
+    }
+
+    return {
+      entities: [...entities.entries()]
+        .map(([entity, privileges]) => ({ entity, privileges }))
+        .sort((a, b) => a.entity.localeCompare(b.entity)),
+      miscellaneous: [...miscellaneous.entries()]
+        .map(([name, accessLevel]) => ({ name, accessLevel }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  }
+
+  /**
+   * Map the IDs of entity privileges to their entity and privilege type
+   */
+  private async getEntityPrivilegeIndex(): Promise<Map<string, { entity: string, privilegeType: string }>> {
+    const response = await this.makeMetadataRequest<ApiCollectionResponse<any>>(`api/data/v9.2/EntityDefinitions?$select=LogicalName,Privileges`);
+    const index = new Map<string, { entity: string, privilegeType: string }>();
+    for (const entity of response.value) {
+      for (const privilege of entity.Privileges || []) {
+        index.set(String(privilege.PrivilegeId).toLowerCase(), { entity: entity.LogicalName, privilegeType: privilege.PrivilegeType });
+      }
+    }
+    return index;
+  }
+
+  /**
+   * Get the audit history of a record, newest first, with the before and after values of each change.
+   * Auditing must be enabled for the environment and the entity.
+   * @param entityName The entity set name (e.g., 'accounts') or logical name (e.g., 'account')
+   * @param recordId The GUID of the record
+   * @param filter Filters for the audit entries
+   * @returns The audit entries
+   */
+  async getRecordAuditHistory(entityName: string, recordId: string, filter: AuditHistoryFilter = {}): Promise<AuditEntry[]> {
+    const entity = await this.resolveEntity(entityName);
+    const attributes = await this.getEntityAttributeDetails(entity.logicalName);
+
+    const conditions = [`_objectid_value eq ${recordId}`, `objecttypecode eq '${entity.logicalName}'`];
+    if (filter.since) {
+      conditions.push(`createdon ge ${filter.since}`);
+    }
+    if (filter.until) {
+      conditions.push(`createdon le ${filter.until}`);
+    }
+
+    const maxRecords = filter.maxRecords || 50;
+    const attributeFilter = filter.attributes?.length ? new Set(filter.attributes.map(attribute => attribute.toLowerCase())) : undefined;
+    if (attributeFilter) {
+      const unknownAttributes = [...attributeFilter].filter(attribute => !attributes.some(candidate => candidate.logicalName === attribute));
+      if (unknownAttributes.length) {
+        const suggestions = unknownAttributes.flatMap(attribute => findSimilarNames(attribute, attributes.map(candidate => candidate.logicalName)));
+        throw new Error(`Unknown attribute(s) of entity '${entity.logicalName}': ${unknownAttributes.join(', ')}.${suggestions.length ? ` Did you mean: ${suggestions.join(', ')}?` : ''}`);
+      }
+    }
+    const entries: AuditEntry[] = [];
+    let endpoint: string | undefined = `api/data/v9.2/audits?$select=auditid,createdon,action,_userid_value,changedata&$filter=${encodeURIComponent(conditions.join(' and '))}&$orderby=createdon desc`;
+
+    // The attribute filter is applied to the decoded changes, so keep reading pages until enough entries match
+    while (endpoint && entries.length < maxRecords) {
+      const response: ApiCollectionResponse<any> = await this.makeRequest<ApiCollectionResponse<any>>(endpoint, 'GET', undefined, {
+        'Prefer': `odata.maxpagesize=${Math.min(attributeFilter ? MAX_PAGE_SIZE : maxRecords, MAX_PAGE_SIZE)},${INCLUDE_ANNOTATIONS_PREFERENCE}`
+      });
+
+      for (const audit of response.value) {
+        const entry: AuditEntry = {
+          auditId: audit.auditid,
+          createdOn: audit.createdon,
+          action: audit['action@OData.Community.Display.V1.FormattedValue'] || String(audit.action),
+          user: audit._userid_value ? { id: audit._userid_value, name: audit['_userid_value@OData.Community.Display.V1.FormattedValue'] } : undefined,
+        };
+
+        const changes = parseAuditChangeData(audit.changedata, attributes);
+        if (changes) {
+          entry.changes = attributeFilter ? changes.filter(change => attributeFilter.has(change.attribute)) : changes;
+          if (attributeFilter && !entry.changes.length) {
+            continue;
+          }
+        } else if (attributeFilter) {
+          // Legacy entries can't be matched against the attribute filter
+          continue;
+        } else {
+          entry.changeData = audit.changedata;
+        }
+
+        entries.push(entry);
+        if (entries.length >= maxRecords) {
+          break;
+        }
+      }
+
+      const nextLink = response['@odata.nextLink'];
+      endpoint = nextLink ? this.toRelativeEndpoint(nextLink) : undefined;
+    }
+
+    return entries;
+  }
+
+  /**
+   * List the forms of an entity
+   * @param entityName The logical name of the entity
+   * @returns The forms, sorted by type and name
+   */
+  async listForms(entityName: string): Promise<FormSummary[]> {
+    const forms = await this.getAllRecords<any>(`api/data/v9.2/systemforms?$select=formid,name,type,isdefault,formactivationstate,description&$filter=objecttypecode eq '${entityName}'`);
+    return forms
+      .map(form => this.toFormSummary(form))
+      .sort((a, b) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get a form with an outline of its tabs, sections and fields
+   * @param formId The ID of the form
+   */
+  async getFormLayout(formId: string): Promise<FormSummary & { entity: string, layout: FormLayout }> {
+    const form = await this.makeRequest<any>(`api/data/v9.2/systemforms(${formId})?$select=formid,name,type,isdefault,formactivationstate,description,objecttypecode,formxml`);
+    return {
+      ...this.toFormSummary(form),
+      entity: form.objecttypecode,
+      layout: parseFormXml(form.formxml),
+    };
+  }
+
+  private toFormSummary(form: any): FormSummary {
+    return {
+      formId: form.formid,
+      name: form.name,
+      type: FORM_TYPES[form.type] || `Type ${form.type}`,
+      isDefault: form.isdefault === true,
+      // Form activation state 1 is Active
+      active: form.formactivationstate === 1,
+      description: form.description || undefined,
+    };
+  }
+
+  /**
+   * List the system views and, optionally, the personal views of an entity
+   * @param entityName The logical name of the entity
+   * @param includePersonal Whether to include personal views shared with or owned by the caller (default: true)
+   * @returns The active views, system views first
+   */
+  async listViews(entityName: string, includePersonal: boolean = true): Promise<ViewSummary[]> {
+    const systemViews = await this.getAllRecords<any>(`api/data/v9.2/savedqueries?$select=savedqueryid,name,querytype,isdefault&$filter=returnedtypecode eq '${entityName}' and statecode eq 0&$orderby=name`);
+    const personalViews = includePersonal
+      ? await this.getAllRecords<any>(`api/data/v9.2/userqueries?$select=userqueryid,name&$filter=returnedtypecode eq '${entityName}' and statecode eq 0&$orderby=name`)
+      : [];
+
+    return [
+      ...systemViews.map(view => this.toViewSummary(view, 'system')),
+      ...personalViews.map(view => this.toViewSummary(view, 'personal')),
+    ];
+  }
+
+  /**
+   * Get a view with its columns, filters and sort order
+   * @param viewId The ID of the view
+   * @param viewType Whether the view is a system (savedquery) or personal (userquery) view
+   */
+  async getView(viewId: string, viewType: ViewType = 'system'): Promise<ViewSummary & { entity: string, definition: ViewDefinition, fetchXml: string }> {
+    const view = viewType === 'system'
+      ? await this.makeRequest<any>(`api/data/v9.2/savedqueries(${viewId})?$select=savedqueryid,name,querytype,isdefault,returnedtypecode,fetchxml,layoutxml`)
+      : await this.makeRequest<any>(`api/data/v9.2/userqueries(${viewId})?$select=userqueryid,name,returnedtypecode,fetchxml,layoutxml`);
+
+    if (!view.fetchxml) {
+      throw new Error(`View '${view.name}' has no FetchXML query`);
+    }
+
+    return {
+      ...this.toViewSummary(view, viewType),
+      entity: view.returnedtypecode,
+      definition: parseViewDefinition(view.fetchxml, view.layoutxml || undefined),
+      fetchXml: view.fetchxml,
+    };
+  }
+
+  /**
+   * Run the query of a view
+   * @param viewId The ID of the view
+   * @param viewType Whether the view is a system (savedquery) or personal (userquery) view
+   * @param maxRecords Maximum number of rows to return
+   */
+  async runView(viewId: string, viewType: ViewType = 'system', maxRecords: number = 50): Promise<FetchXmlResponse> {
+    const view = await this.getView(viewId, viewType);
+    return this.executeFetchXml(view.fetchXml, maxRecords);
+  }
+
+  private toViewSummary(view: any, viewType: ViewType): ViewSummary {
+    return {
+      viewId: viewType === 'system' ? view.savedqueryid : view.userqueryid,
+      name: view.name,
+      viewType,
+      queryType: viewType === 'system' ? VIEW_QUERY_TYPES[view.querytype] || `Query type ${view.querytype}` : undefined,
+      isDefault: view.isdefault === true,
+    };
+  }
+
+  /**
+   * List classic workflows, cloud flows and other processes, optionally only those on a given entity.
+   * Cloud flows are matched by the entity of their Dataverse trigger.
+   * @param filter The entity, categories and whether to look up the last runs
+   * @returns The process definitions, sorted by category and name
+   */
+  async listWorkflows(filter: WorkflowFilter = {}): Promise<WorkflowSummary[]> {
+    const categories = filter.categories?.length ? filter.categories : [0, CLOUD_FLOW_CATEGORY];
+
+    // Type 1 is the definition; activated classic workflows also have an activation copy
+    const conditions = ['type eq 1', `(${categories.map(category => `category eq ${category}`).join(' or ')})`];
+    if (filter.entityName) {
+      const entityCondition = `primaryentity eq '${filter.entityName}'`;
+      conditions.push(categories.includes(CLOUD_FLOW_CATEGORY) ? `(${entityCondition} or category eq ${CLOUD_FLOW_CATEGORY})` : entityCondition);
+    }
+
+    const workflows = await this.getAllRecords<any>(`api/data/v9.2/workflows?$select=${WORKFLOW_SELECT}&$filter=${encodeURIComponent(conditions.join(' and '))}&$orderby=name`);
+
+    let summaries = workflows.map(workflow => this.toWorkflowSummary(workflow));
+    if (filter.entityName) {
+      summaries = summaries.filter(summary => summary.entity === filter.entityName);
+    }
+
+    if (filter.includeLastRun) {
+      await Promise.all(summaries.map(async summary => {
+        summary.lastRun = await this.getWorkflowLastRun(summary.workflowId);
+      }));
+    }
+
+    return summaries.sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get a classic workflow, cloud flow or other process with its last run
+   * @param workflowId The ID of the workflow
+   * @returns The process, with the full parsed definition for cloud flows
+   */
+  async getWorkflow(workflowId: string): Promise<WorkflowSummary> {
+    const workflow = await this.makeRequest<any>(`api/data/v9.2/workflows(${workflowId})?$select=${WORKFLOW_SELECT}`);
+    const summary = this.toWorkflowSummary(workflow);
+    summary.lastRun = await this.getWorkflowLastRun(workflowId);
+    return summary;
+  }
+
+  /**
+   * Get the most recent run of a process from flowsessions
+   * @returns The last run, or undefined if there is none or the environment has no flowsessions table
+   */
+  private async getWorkflowLastRun(workflowId: string): Promise<WorkflowSummary['lastRun']> {
+    try {
+      const response = await this.makeRequest<ApiCollectionResponse<any>>(`api/data/v9.2/flowsessions?$select=statuscode,startedon,completedon,errormessage&$filter=_regardingobjectid_value eq ${workflowId}&$orderby=createdon desc&$top=1`, 'GET', undefined, {
+        'Prefer': INCLUDE_ANNOTATIONS_PREFERENCE
+      });
+      const session = response.value[0];
+      if (!session) {
+        return undefined;
+      }
+      return {
+        status: session['statuscode@OData.Community.Display.V1.FormattedValue'] || String(session.statuscode),
+        startedOn: session.startedon || undefined,
+        completedOn: session.completedon || undefined,
+        errorMessage: session.errormessage || undefined,
+      };
+    } catch (error) {
+      if (error instanceof PowerPlatformApiError && error.status === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private toWorkflowSummary(workflow: any): WorkflowSummary {
+    const summary: WorkflowSummary = {
+      workflowId: workflow.workflowid,
+      name: workflow.name,
+      category: WORKFLOW_CATEGORIES[workflow.category] || `Category ${workflow.category}`,
+      entity: workflow.primaryentity && workflow.primaryentity !== 'none' ? workflow.primaryentity : undefined,
+      state: WORKFLOW_STATES[workflow.statecode] || String(workflow.statecode),
+      description: workflow.description || undefined,
+      modifiedOn: workflow.modifiedon,
+    };
+
+    if (workflow.category === 0) {
+      summary.mode = workflow.mode === 1 ? 'Real-time' : 'Background';
+      summary.triggers = {
+        onCreate: workflow.triggeroncreate === true,
+        onDelete: workflow.triggerondelete === true,
+        onUpdateAttributes: splitList(workflow.triggeronupdateattributelist),
+        onDemand: workflow.ondemand === true,
+      };
+    }
+
+    if (workflow.category === CLOUD_FLOW_CATEGORY && workflow.clientdata) {
+      try {
+        summary.flow = parseFlowClientData(workflow.clientdata);
+        summary.entity = getFlowTriggerEntity(summary.flow) || summary.entity;
+      } catch (error: any) {
+        console.error(`Failed to parse the definition of flow '${workflow.name}': ${error.message}`);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Export a solution
+   * @param solutionUniqueName The unique name of the solution
+   * @param managed Whether to export as a managed solution
+   * @returns The solution package (zip)
+   */
+  async exportSolution(solutionUniqueName: string, managed: boolean): Promise<Buffer> {
+    const response = await this.makeRequest<{ ExportSolutionFile: string }>('api/data/v9.2/ExportSolution', 'POST', {
+      SolutionName: solutionUniqueName,
+      Managed: managed
+    });
+    return Buffer.from(response.ExportSolutionFile, 'base64');
+  }
+
+  /**
+   * Import a solution asynchronously and wait a bounded time for the import job to finish.
+   * Imports still running afterwards can be followed with getSolutionImportStatus.
+   * @param zip The solution package (zip)
+   * @param options Import and polling options
+   * @returns The outcome of the import, or its IDs and progress while it is still running
+   */
+  async importSolution(zip: Buffer, options: ImportSolutionOptions = {}): Promise<ImportSolutionResult> {
+    this.assertWriteEnabled('Importing solutions');
+
+    const response = await this.makeRequest<{ AsyncOperationId: string, ImportJobKey: string }>('api/data/v9.2/ImportSolutionAsync', 'POST', {
+      OverwriteUnmanagedCustomizations: options.overwriteUnmanagedCustomizations ?? false,
+      PublishWorkflows: options.publishWorkflows ?? true,
+      CustomizationFile: zip.toString('base64')
+    });
+
+    const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_IMPORT_POLL_INTERVAL_MS;
+    const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_IMPORT_TIMEOUT_MS);
+
+    for (;;) {
+      const result = await this.getSolutionImportStatus(response.AsyncOperationId, response.ImportJobKey);
+      if (result.status !== 'InProgress' || Date.now() + pollIntervalMs > deadline) {
+        return result;
+      }
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+    }
+  }
+
+  /**
+   * Check the status of an asynchronous solution import
+   * @param asyncOperationId The ID of the system job running the import
+   * @param importJobId The ID of the import job
+   */
+  async getSolutionImportStatus(asyncOperationId: string, importJobId: string): Promise<ImportSolutionResult> {
+    const operation = await this.makeRequest<any>(`api/data/v9.2/asyncoperations(${asyncOperationId})?$select=statecode,statuscode,message,friendlymessage`);
+
+    // The import job is created once the system job starts running
+    let progress: number | undefined;
+    try {
+      const importJob = await this.makeRequest<any>(`api/data/v9.2/importjobs(${importJobId})?$select=progress`);
+      progress = importJob.progress;
+    } catch (error) {
+      if (!(error instanceof PowerPlatformApiError && error.status === 404)) {
+        throw error;
+      }
+    }
+
+    // State 3 is Completed; status 30 is Succeeded, 31 Failed and 32 Canceled
+    let status: ImportSolutionResult['status'] = 'InProgress';
+    if (operation.statecode === 3) {
+      status = operation.statuscode === 30 ? 'Succeeded' : operation.statuscode === 32 ? 'Canceled' : 'Failed';
+    }
+
+    return {
+      asyncOperationId,
+      importJobId,
+      status,
+      message: status === 'Failed' || status === 'Canceled' ? operation.friendlymessage || operation.message || undefined : undefined,
+      progress,
+    };
+  }
+
+  private toSolutionSummary(solution: any): SolutionSummary {
+    return {
+      solutionId: solution.solutionid,
+      uniqueName: solution.uniquename,
+      friendlyName: solution.friendlyname,
+      version: solution.version,
+      isManaged: solution.ismanaged === true,
+      installedOn: solution.installedon || undefined,
+      publisher: solution.publisherid ? {
+        uniqueName: solution.publisherid.uniquename,
+        friendlyName: solution.publisherid.friendlyname,
+        customizationPrefix: solution.publisherid.customizationprefix,
+      } : undefined,
+    };
+  }
 
-      return response.data as T;
-    } catch (error) {
-      console.error('PowerPlatform API request failed:', error);
-      throw new Error(`PowerPlatform API request failed: ${error}`);
-    }
+  /**
+   * Keep the entities whose logical, entity set or display name matches a search term, best matches first.
+   * Exact matches rank above prefix matches, then substring matches, then close misspellings.
+   */
+  private rankEntitiesBySearch(entities: EntitySummary[], search: string): EntitySummary[] {
+    const term = search.toLowerCase();
+    
+    const scoreName = (name: string | undefined): number => {
+      const lower = (name || '').toLowerCase();
+      if (!lower) return 0;
+      if (lower === term) return 4;
+      if (lower.startsWith(term)) return 3;
+      if (lower.includes(term)) return 2;
+      return findSimilarNames(term, [lower], 1).length ? 1 : 0;
+    };
+    
+    return entities
+      .map(entity => ({
+        entity,
+        score: Math.max(scoreName(entity.logicalName), scoreName(entity.entitySetName), scoreName(entity.displayName)),
+      }))
+      .filter(match => match.score > 0)
+      .sort((a, b) => b.score - a.score || a.entity.logicalName.localeCompare(b.entity.logicalName))
+      .map(match => match.entity);
   }
 
   /**
@@ -98,7 +1579,7 @@ export class PowerPlatformService {
    * @param entityName The logical name of the entity
    */
   async getEntityMetadata(entityName: string): Promise<any> {
-    const response = await this.makeRequest(`api/data/v9.2/EntityDefinitions(LogicalName='${entityName}')`);
+    const response = await this.makeMetadataRequest(`api/data/v9.2/EntityDefinitions(LogicalName='${entityName}')`);
     
     // Remove Privileges property if it exists
     if (response && typeof response === 'object' && 'Privileges' in response) {
@@ -115,46 +1596,143 @@ export class PowerPlatformService {
   async getEntityAttributes(entityName: string): Promise<ApiCollectionResponse<any>> {
     const selectProperties = [
       'LogicalName',
+      'AttributeType',
+      'AttributeOf',
+      'IsValidForRead',
     ].join(',');
     
     // Make the request to get attributes
-    const response = await this.makeRequest<ApiCollectionResponse<any>>(`api/data/v9.2/EntityDefinitions(LogicalName='${entityName}')/Attributes?$select=${selectProperties}&$filter=AttributeType ne 'Virtual'`);
+    const response = await this.makeMetadataRequest<ApiCollectionResponse<any>>(`api/data/v9.2/EntityDefinitions(LogicalName='${entityName}')/Attributes?$select=${selectProperties}&$filter=AttributeType ne 'Virtual'`);
     
     if (response && response.value) {
-      // First pass: Filter out attributes that end with 'yominame'
-      response.value = response.value.filter((attribute: any) => {
-        const logicalName = attribute.LogicalName || '';
-        return !logicalName.endsWith('yominame');
+      // Filter out attributes derived from another attribute, such as the 'name' and 'yominame' columns of lookups
+      response.value = response.value.filter((attribute: any) => !attribute.AttributeOf);
+    }
+    
+    return response;
+  }
+
+  /**
+   * Get detailed metadata about entity attributes/fields: type, display name, requiredness,
+   * max length, format, lookup targets and the options of choice columns
+   * @param entityName The logical name of the entity
+   * @returns The attributes, sorted by logical name
+   */
+  async getEntityAttributeDetails(entityName: string): Promise<AttributeDetails[]> {
+    const attributesEndpoint = `api/data/v9.2/EntityDefinitions(LogicalName='${entityName}')/Attributes`;
+    const selectProperties = [
+      'LogicalName',
+      'AttributeType',
+      'AttributeOf',
+      'DisplayName',
+      'Description',
+      'RequiredLevel',
+      'IsPrimaryId',
+      'IsPrimaryName',
+      'IsCustomAttribute',
+      'IsValidForCreate',
+      'IsValidForUpdate',
+    ].join(',');
+    const optionSetExpand = '$expand=OptionSet($select=Options),GlobalOptionSet($select=Name,Options)';
+    
+    // Type-specific properties are only available through the typed attribute casts
+    const [attributes, strings, memos, dateTimes, lookups, picklists, multiSelectPicklists, states, statuses, booleans] = await Promise.all([
+      this.makeMetadataRequest<ApiCollectionResponse<any>>(`${attributesEndpoint}?$select=${selectProperties}&$filter=AttributeType ne 'Virtual'`),
+      this.makeMetadataRequest<ApiCollectionResponse<any>>(`${attributesEndpoint}/Microsoft.Dynamics.CRM.StringAttributeMetadata?$select=LogicalName,MaxLength,FormatName`),
+      this.makeMetadataRequest<ApiCollectionResponse<any>>(`${attributesEndpoint}/Microsoft.Dynamics.CRM.MemoAttributeMetadata?$select=LogicalName,MaxLength,Format`),
+      this.makeMetadataRequest<ApiCollectionResponse<any>>(`${attributesEndpoint}/Microsoft.Dynamics.CRM.DateTimeAttributeMetadata?$select=LogicalName,Format,DateTimeBehavior`),
+      this.makeMetadataRequest<ApiCollectionResponse<any>>(`${attributesEndpoint}/Microsoft.Dynamics.CRM.LookupAttributeMetadata?$select=LogicalName,Targets`),
+      this.makeMetadataRequest<ApiCollectionResponse<any>>(`${attributesEndpoint}/Microsoft.Dynamics.CRM.PicklistAttributeMetadata?$select=LogicalName&${optionSetExpand}`),
+      // Multi-select choice columns report AttributeType 'Virtual', so the base query leaves them out; read them in full here
+      this.makeMetadataRequest<ApiCollectionResponse<any>>(`${attributesEndpoint}/Microsoft.Dynamics.CRM.MultiSelectPicklistAttributeMetadata?$select=${selectProperties}&${optionSetExpand}`),
+      this.makeMetadataRequest<ApiCollectionResponse<any>>(`${attributesEndpoint}/Microsoft.Dynamics.CRM.StateAttributeMetadata?$select=LogicalName&$expand=OptionSet($select=Options)`),
+      this.makeMetadataRequest<ApiCollectionResponse<any>>(`${attributesEndpoint}/Microsoft.Dynamics.CRM.StatusAttributeMetadata?$select=LogicalName&$expand=OptionSet($select=Options)`),
+      this.makeMetadataRequest<ApiCollectionResponse<any>>(`${attributesEndpoint}/Microsoft.Dynamics.CRM.BooleanAttributeMetadata?$select=LogicalName&$expand=OptionSet($select=TrueOption,FalseOption)`),
+    ]);
+    
+    const details = new Map<string, AttributeDetails>();
+    const addAttribute = (attribute: any, attributeType: string) => {
+      details.set(attribute.LogicalName, {
+        logicalName: attribute.LogicalName,
+        displayName: attribute.DisplayName?.UserLocalizedLabel?.Label || attribute.LogicalName,
+        description: attribute.Description?.UserLocalizedLabel?.Label || undefined,
+        attributeType,
+        requiredLevel: attribute.RequiredLevel?.Value || 'None',
+        isPrimaryId: attribute.IsPrimaryId === true,
+        isPrimaryName: attribute.IsPrimaryName === true,
+        isCustom: attribute.IsCustomAttribute === true,
+        isValidForCreate: attribute.IsValidForCreate === true,
+        isValidForUpdate: attribute.IsValidForUpdate === true,
       });
-      
-      // Filter out attributes that end with 'name' if there is another attribute with the same name without the 'name' suffix
-      const baseNames = new Set<string>();
-      const namesAttributes = new Map<string, any>();
-      
-      for (const attribute of response.value) {
-        const logicalName = attribute.LogicalName || '';
-      
-        if (logicalName.endsWith('name') && logicalName.length > 4) {
-          const baseName = logicalName.slice(0, -4); // Remove 'name' suffix
-          namesAttributes.set(baseName, attribute);
-        } else {
-          // This is a potential base attribute
-          baseNames.add(logicalName);
-        }
+    };
+
+    for (const attribute of attributes.value) {
+      // Skip attributes derived from another attribute, such as the 'name' columns of lookups
+      if (!attribute.AttributeOf) {
+        addAttribute(attribute, attribute.AttributeType);
       }
-      
-      // Find attributes to remove that match the pattern
-      const attributesToRemove = new Set<any>();
-      for (const [baseName, nameAttribute] of namesAttributes.entries()) {
-        if (baseNames.has(baseName)) {
-          attributesToRemove.add(nameAttribute);
+    }
+    for (const attribute of multiSelectPicklists.value) {
+      if (!attribute.AttributeOf) {
+        addAttribute(attribute, 'MultiSelectPicklist');
+      }
+    }
+    
+    const merge = (response: ApiCollectionResponse<any>, apply: (detail: AttributeDetails, attribute: any) => void) => {
+      for (const attribute of response.value) {
+        const detail = details.get(attribute.LogicalName);
+        if (detail) {
+          apply(detail, attribute);
         }
       }
-
-      response.value = response.value.filter(attribute => !attributesToRemove.has(attribute));
+    };
+    
+    merge(strings, (detail, attribute) => {
+      detail.maxLength = attribute.MaxLength;
+      detail.format = attribute.FormatName?.Value;
+    });
+    merge(memos, (detail, attribute) => {
+      detail.maxLength = attribute.MaxLength;
+      detail.format = attribute.Format || undefined;
+    });
+    merge(dateTimes, (detail, attribute) => {
+      detail.format = [attribute.Format, attribute.DateTimeBehavior?.Value].filter(Boolean).join(', ') || undefined;
+    });
+    merge(lookups, (detail, attribute) => {
+      detail.targets = attribute.Targets;
+    });
+    for (const response of [picklists, multiSelectPicklists]) {
+      merge(response, (detail, attribute) => {
+        const optionSet = attribute.OptionSet || attribute.GlobalOptionSet;
+        detail.options = this.formatOptions(optionSet?.Options);
+        detail.optionSetName = attribute.GlobalOptionSet?.Name || undefined;
+      });
     }
+    merge(states, (detail, attribute) => {
+      detail.options = this.formatOptions(attribute.OptionSet?.Options);
+    });
+    merge(statuses, (detail, attribute) => {
+      // Each status reason belongs to a state
+      detail.options = (attribute.OptionSet?.Options || []).map((option: any) => ({
+        ...this.formatOptions([option])[0],
+        state: option.State,
+      }));
+    });
+    merge(booleans, (detail, attribute) => {
+      detail.options = this.formatOptions([attribute.OptionSet?.FalseOption, attribute.OptionSet?.TrueOption].filter(Boolean));
+    });
     
-    return response;
+    return [...details.values()].sort((a, b) => a.logicalName.localeCompare(b.logicalName));
+  }
+
+  /**
+   * Convert option metadata into value/label pairs
+   */
+  private formatOptions(options: any[] | undefined): AttributeOption[] {
+    return (options || []).map((option: any) => ({
+      value: option.Value,
+      label: option.Label?.UserLocalizedLabel?.Label || String(option.Value),
+    }));
   }
 
   /**
@@ -163,14 +1741,16 @@ export class PowerPlatformService {
    * @param attributeName The logical name of the attribute
    */
   async getEntityAttribute(entityName: string, attributeName: string): Promise<any> {
-    return this.makeRequest(`api/data/v9.2/EntityDefinitions(LogicalName='${entityName}')/Attributes(LogicalName='${attributeName}')`);
+    return this.makeMetadataRequest(`api/data/v9.2/EntityDefinitions(LogicalName='${entityName}')/Attributes(LogicalName='${attributeName}')`);
   }
 
   /**
    * Get one-to-many relationships for an entity
    * @param entityName The logical name of the entity
+   * @param includeAll Also return the activity 'regarding' relationships and those to msdyn_/adx_ entities,
+   *   which are left out by default to keep the list readable
    */
-  async getEntityOneToManyRelationships(entityName: string): Promise<ApiCollectionResponse<any>> {
+  async getEntityOneToManyRelationships(entityName: string, includeAll: boolean = false): Promise<ApiCollectionResponse<any>> {
     const selectProperties = [
       'SchemaName',
       'RelationshipType',
@@ -181,9 +1761,13 @@ export class PowerPlatformService {
       'ReferencedEntityNavigationPropertyName',
       'ReferencingEntityNavigationPropertyName'
     ].join(',');
+
+    if (includeAll) {
+      return this.makeMetadataRequest<ApiCollectionResponse<any>>(`api/data/v9.2/EntityDefinitions(LogicalName='${entityName}')/OneToManyRelationships?$select=${selectProperties}`);
+    }
     
     // Only filter by ReferencingAttribute in the OData query since startswith isn't supported
-    const response = await this.makeRequest<ApiCollectionResponse<any>>(`api/data/v9.2/EntityDefinitions(LogicalName='${entityName}')/OneToManyRelationships?$select=${selectProperties}&$filter=ReferencingAttribute ne 'regardingobjectid'`);
+    const response = await this.makeMetadataRequest<ApiCollectionResponse<any>>(`api/data/v9.2/EntityDefinitions(LogicalName='${entityName}')/OneToManyRelationships?$select=${selectProperties}&$filter=ReferencingAttribute ne 'regardingobjectid'`);
     
     // Filter the response to exclude relationships with ReferencingEntity starting with 'msdyn_' or 'adx_'
     if (response && response.value) {
@@ -209,10 +1793,30 @@ export class PowerPlatformService {
       'Entity1IntersectAttribute',
       'Entity2IntersectAttribute',
       'Entity1NavigationPropertyName',
-      'Entity2NavigationPropertyName'
+      'Entity2NavigationPropertyName',
+      'IntersectEntityName'
+    ].join(',');
+    
+    return this.makeMetadataRequest<ApiCollectionResponse<any>>(`api/data/v9.2/EntityDefinitions(LogicalName='${entityName}')/ManyToManyRelationships?$select=${selectProperties}`);
+  }
+
+  /**
+   * Get many-to-one relationships for an entity (lookups from this entity to others)
+   * @param entityName The logical name of the entity
+   */
+  async getEntityManyToOneRelationships(entityName: string): Promise<ApiCollectionResponse<any>> {
+    const selectProperties = [
+      'SchemaName',
+      'RelationshipType',
+      'ReferencedAttribute',
+      'ReferencedEntity',
+      'ReferencingAttribute',
+      'ReferencingEntity',
+      'ReferencedEntityNavigationPropertyName',
+      'ReferencingEntityNavigationPropertyName'
     ].join(',');
     
-    return this.makeRequest<ApiCollectionResponse<any>>(`api/data/v9.2/EntityDefinitions(LogicalName='${entityName}')/ManyToManyRelationships?$select=${selectProperties}`);
+    return this.makeMetadataRequest<ApiCollectionResponse<any>>(`api/data/v9.2/EntityDefinitions(LogicalName='${entityName}')/ManyToOneRelationships?$select=${selectProperties}`);
   }
 
   /**
@@ -231,33 +1835,549 @@ export class PowerPlatformService {
     };
   }
 
+  /**
+   * Get the steps from an entity to its directly related entities through 1:N, N:1 and N:N relationships
+   * @param entityName The logical name of the entity
+   * @returns The steps, sorted by related entity
+   */
+  async getRelationshipHops(entityName: string): Promise<RelationshipHop[]> {
+    const [oneToMany, manyToOne, manyToMany] = await Promise.all([
+      this.getEntityOneToManyRelationships(entityName),
+      this.getEntityManyToOneRelationships(entityName),
+      this.getEntityManyToManyRelationships(entityName)
+    ]);
+
+    const hops: RelationshipHop[] = [
+      ...oneToMany.value.map((relationship: any): RelationshipHop => ({
+        from: entityName,
+        to: relationship.ReferencingEntity,
+        relationshipSchemaName: relationship.SchemaName,
+        relationshipType: 'OneToMany',
+        navigationProperty: relationship.ReferencedEntityNavigationPropertyName,
+        fromAttribute: relationship.ReferencedAttribute,
+        toAttribute: relationship.ReferencingAttribute,
+      })),
+      ...manyToOne.value.map((relationship: any): RelationshipHop => ({
+        from: entityName,
+        to: relationship.ReferencedEntity,
+        relationshipSchemaName: relationship.SchemaName,
+        relationshipType: 'ManyToOne',
+        navigationProperty: relationship.ReferencingEntityNavigationPropertyName,
+        fromAttribute: relationship.ReferencingAttribute,
+        toAttribute: relationship.ReferencedAttribute,
+      })),
+      ...manyToMany.value.map((relationship: any): RelationshipHop => {
+        // Self-referencing N:N relationships are followed from the Entity1 side
+        const isEntity1 = relationship.Entity1LogicalName === entityName;
+        return {
+          from: entityName,
+          to: isEntity1 ? relationship.Entity2LogicalName : relationship.Entity1LogicalName,
+          relationshipSchemaName: relationship.SchemaName,
+          relationshipType: 'ManyToMany',
+          navigationProperty: isEntity1 ? relationship.Entity1NavigationPropertyName : relationship.Entity2NavigationPropertyName,
+          fromAttribute: isEntity1 ? relationship.Entity1IntersectAttribute : relationship.Entity2IntersectAttribute,
+          toAttribute: isEntity1 ? relationship.Entity2IntersectAttribute : relationship.Entity1IntersectAttribute,
+          intersectEntity: relationship.IntersectEntityName,
+        };
+      }),
+    ];
+
+    return hops.sort((a, b) => a.to.localeCompare(b.to) || a.relationshipSchemaName.localeCompare(b.relationshipSchemaName));
+  }
+
+  /**
+   * Capture the attributes, relationships and global option sets of an entity for comparison
+   * @param entityName The logical name of the entity
+   * @returns The entity schema snapshot
+   */
+  async getEntitySchemaSnapshot(entityName: string): Promise<EntitySchemaSnapshot> {
+    // Snapshots are compared between environments, so no relationships are left out
+    const [attributes, oneToMany, manyToMany] = await Promise.all([
+      this.getEntityAttributeDetails(entityName),
+      this.getEntityOneToManyRelationships(entityName, true),
+      this.getEntityManyToManyRelationships(entityName)
+    ]);
+
+    const optionSetNames = [...new Set(attributes.map(attribute => attribute.optionSetName).filter((name): name is string => !!name))].sort();
+    const optionSets: Record<string, AttributeOption[]> = {};
+    for (const optionSetName of optionSetNames) {
+      const optionSet = await this.getGlobalOptionSet(optionSetName);
+      optionSets[optionSetName] = this.formatOptions(optionSet.Options);
+    }
+
+    const relationshipSnapshots: RelationshipSnapshot[] = [
+      ...oneToMany.value.map((relationship: any) => ({
+        schemaName: relationship.SchemaName,
+        relationshipType: relationship.RelationshipType,
+        referencedEntity: relationship.ReferencedEntity,
+        referencedAttribute: relationship.ReferencedAttribute,
+        referencingEntity: relationship.ReferencingEntity,
+        referencingAttribute: relationship.ReferencingAttribute,
+      })),
+      ...manyToMany.value.map((relationship: any) => ({
+        schemaName: relationship.SchemaName,
+        relationshipType: relationship.RelationshipType,
+        entity1LogicalName: relationship.Entity1LogicalName,
+        entity2LogicalName: relationship.Entity2LogicalName,
+      })),
+    ];
+
+    return {
+      entityName,
+      organizationUrl: this.config.organizationUrl,
+      capturedAt: new Date().toISOString(),
+      attributes,
+      relationships: relationshipSnapshots.sort((a, b) => a.schemaName.localeCompare(b.schemaName)),
+      optionSets,
+    };
+  }
+
   /**
    * Get a global option set definition by name
    * @param optionSetName The name of the global option set
    * @returns The global option set definition
    */
   async getGlobalOptionSet(optionSetName: string): Promise<any> {
-    return this.makeRequest(`api/data/v9.2/GlobalOptionSetDefinitions(Name='${optionSetName}')`);
+    return this.makeMetadataRequest(`api/data/v9.2/GlobalOptionSetDefinitions(Name='${optionSetName}')`);
   }
 
   /**
    * Get a specific record by entity name (plural) and ID
-   * @param entityNamePlural The plural name of the entity (e.g., 'accounts', 'contacts')
+   * @param entityNamePlural The plural name of the entity (e.g., 'accounts', 'contacts') or its logical name (e.g., 'account')
    * @param recordId The GUID of the record
    * @returns The record data
    */
-  async getRecord(entityNamePlural: string, recordId: string): Promise<any> {
-    return this.makeRequest(`api/data/v9.2/${entityNamePlural}(${recordId})`);
+  async getRecord(entityNamePlural: string, recordId: string, options: GetRecordOptions = {}): Promise<any> {
+    const entitySetName = await this.resolveEntitySetName(entityNamePlural);
+    if (options.raw) {
+      return this.makeRequest(`api/data/v9.2/${entitySetName}(${recordId})`);
+    }
+
+    const record = await this.makeRequest<Record<string, any>>(`api/data/v9.2/${entitySetName}(${recordId})`, 'GET', undefined, {
+      'Prefer': INCLUDE_ANNOTATIONS_PREFERENCE
+    });
+    return formatRecord(record);
   }
 
   /**
-   * Query records using entity name (plural) and a filter expression
-   * @param entityNamePlural The plural name of the entity (e.g., 'accounts', 'contacts')
-   * @param filter OData filter expression (e.g., "name eq 'test'")
+   * Query records using entity name (plural) and a filter expression.
+   * $select, $orderby and $expand options are validated against the entity metadata before the query is sent.
+   * Follows @odata.nextLink until maxRecords records have been collected.
+   * @param entityNamePlural The plural name of the entity (e.g., 'accounts', 'contacts') or its logical name (e.g., 'account')
+   * @param filter OData filter expression (e.g., "name eq 'test'"); an empty string returns all records
    * @param maxRecords Maximum number of records to retrieve (default: 50)
-   * @returns Filtered list of records
+   * @param options Query shape and paging options
+   * @returns Filtered list of records, with a continuation token if more records are available
+   */
+  async queryRecords(entityNamePlural: string, filter: string, maxRecords: number = 50, options: QueryRecordsOptions = {}): Promise<QueryRecordsResponse<any>> {
+    let endpoint: string;
+    let pageSize: number;
+    let raw = options.raw === true;
+
+    if (options.continuationToken) {
+      ({ endpoint, pageSize, raw } = this.decodeContinuationToken(options.continuationToken));
+    } else {
+      const entitySetName = await this.resolveEntitySetName(entityNamePlural);
+      if (options.select?.length || options.orderBy?.length || options.expand?.length) {
+        const entity = await this.resolveEntity(entityNamePlural);
+        await this.validateQueryOptions(entity.logicalName, options);
+      }
+
+      const queryParts: string[] = [];
+      if (options.select?.length) {
+        queryParts.push(`$select=${options.select.join(',')}`);
+      }
+      if (filter) {
+        queryParts.push(`$filter=${encodeURIComponent(filter)}`);
+      }
+      if (options.orderBy?.length) {
+        queryParts.push(`$orderby=${encodeURIComponent(this.formatOrderBy(options.orderBy))}`);
+      }
+      if (options.expand?.length) {
+        queryParts.push(`$expand=${encodeURIComponent(options.expand.map(clause => this.formatExpand(clause)).join(','))}`);
+      }
+      if (options.count) {
+        queryParts.push('$count=true');
+      }
+
+      pageSize = Math.min(options.pageSize || maxRecords, MAX_PAGE_SIZE);
+      endpoint = `api/data/v9.2/${entitySetName}${queryParts.length ? `?${queryParts.join('&')}` : ''}`;
+    }
+
+    const records: any[] = [];
+    let response: ApiCollectionResponse<any> | null = null;
+    let nextLink: string | undefined;
+
+    while (records.length < maxRecords) {
+      // Never ask for more than the records still wanted, so the cap falls on a page boundary
+      // and the nextLink resumes exactly after the last record returned
+      const requestPageSize = Math.min(pageSize, maxRecords - records.length);
+      response = await this.makeRequest<ApiCollectionResponse<any>>(endpoint, 'GET', undefined, {
+        'Prefer': raw ? `odata.maxpagesize=${requestPageSize}` : `odata.maxpagesize=${requestPageSize},${INCLUDE_ANNOTATIONS_PREFERENCE}`
+      });
+      records.push(...(response.value || []));
+      nextLink = response['@odata.nextLink'];
+
+      if (!nextLink) {
+        break;
+      }
+      endpoint = this.toRelativeEndpoint(nextLink);
+    }
+
+    const { '@odata.nextLink': _nextLink, ...rest } = response || { value: [] };
+    const result: QueryRecordsResponse<any> = {
+      ...rest,
+      value: raw ? records : records.map(record => formatRecord(record))
+    };
+
+    if (nextLink) {
+      result.continuationToken = this.encodeContinuationToken(endpoint, pageSize, raw);
+    }
+
+    return result;
+  }
+
+  /**
+   * Execute a FetchXML query.
+   * The query is checked to be well-formed before it is sent. Non-aggregate queries are paged with
+   * paging cookies until maxRecords records have been collected; aggregate results are returned as tidy rows.
+   * @param fetchXml The FetchXML query
+   * @param maxRecords Maximum number of records to retrieve across pages (default: 5000)
+   * @returns The query results
+   */
+  async executeFetchXml(fetchXml: string, maxRecords: number = 5000): Promise<FetchXmlResponse> {
+    const info = parseFetchXml(fetchXml);
+    const entitySetName = await this.getEntitySetName(info.entityName);
+
+    if (info.aggregate) {
+      const response = await this.makeRequest<ApiCollectionResponse<any>>(`api/data/v9.2/${entitySetName}?fetchXml=${encodeURIComponent(fetchXml)}`, 'GET', undefined, {
+        'Prefer': 'odata.include-annotations="OData.Community.Display.V1.FormattedValue"'
+      });
+      
+      return {
+        entityName: info.entityName,
+        aggregate: true,
+        value: formatAggregateRows(response.value || [], info.columns),
+        moreRecords: false
+      };
+    }
+
+    const records: any[] = [];
+    let page = info.page || 1;
+    let query = fetchXml;
+    let moreRecords = false;
+
+    while (true) {
+      const response = await this.makeRequest<ApiCollectionResponse<any>>(`api/data/v9.2/${entitySetName}?fetchXml=${encodeURIComponent(query)}`, 'GET', undefined, {
+        'Prefer': 'odata.include-annotations="Microsoft.Dynamics.CRM.fetchxmlpagingcookie,Microsoft.Dynamics.CRM.morerecords"'
+      });
+      records.push(...(response.value || []));
+      moreRecords = response['@Microsoft.Dynamics.CRM.morerecords'] === true;
+
+      // The top attribute can't be combined with paging
+      if (!moreRecords || info.top !== undefined || records.length >= maxRecords) {
+        break;
+      }
+
+      page++;
+      query = setFetchXmlPaging(fetchXml, page, extractPagingCookie(response['@Microsoft.Dynamics.CRM.fetchxmlpagingcookie']));
+    }
+
+    return {
+      entityName: info.entityName,
+      aggregate: false,
+      value: records.slice(0, maxRecords),
+      moreRecords: moreRecords || records.length > maxRecords
+    };
+  }
+
+  /**
+   * Get the entity set (plural) name of an entity from its logical name
+   * @param entityName The logical name of the entity
+   */
+  async getEntitySetName(entityName: string): Promise<string> {
+    const response = await this.makeMetadataRequest<any>(`api/data/v9.2/EntityDefinitions(LogicalName='${entityName}')?$select=EntitySetName`);
+    return response.EntitySetName;
+  }
+
+  /**
+   * Resolve an entity from either its entity set (plural) name or its logical name
+   * @param name The entity set name (e.g., 'accounts') or logical name (e.g., 'account'), case-insensitive
+   * @returns The entity
+   * @throws Error with suggestions when no entity matches
+   */
+  async resolveEntity(name: string): Promise<EntitySummary> {
+    const entities = await this.listEntities();
+    const lower = name.toLowerCase();
+    
+    const match = entities.find(entity => entity.entitySetName?.toLowerCase() === lower)
+      || entities.find(entity => entity.logicalName.toLowerCase() === lower);
+    if (match) {
+      return match;
+    }
+    
+    const candidates = entities.flatMap(entity => [entity.logicalName, entity.entitySetName].filter(Boolean));
+    const similar = findSimilarNames(name, candidates);
+    const suggestion = similar.length
+      ? ` Did you mean: ${similar.join(', ')}?`
+      : ' Use search-entities to find the right name.';
+    throw new Error(`No entity found with entity set name or logical name '${name}'.${suggestion}`);
+  }
+
+  /**
+   * Resolve the entity set (plural) name used in record URLs from either form of entity name
+   * @param name The entity set name (e.g., 'accounts') or logical name (e.g., 'account')
+   */
+  async resolveEntitySetName(name: string): Promise<string> {
+    const entity = await this.resolveEntity(name);
+    if (!entity.entitySetName) {
+      throw new Error(`Entity '${entity.logicalName}' has no entity set name and can't be accessed through the Web API`);
+    }
+    return entity.entitySetName;
+  }
+
+  /**
+   * Validate $select, $orderby and $expand options against the entity's attribute and navigation property metadata
+   */
+  private async validateQueryOptions(entityName: string, options: QueryRecordsOptions): Promise<void> {
+    const attributeNames = await this.getValidAttributeNames(entityName);
+    this.assertValidNames(entityName, '$select', options.select || [], attributeNames);
+    this.assertValidNames(entityName, '$orderby', (options.orderBy || []).map(clause => clause.attribute), attributeNames);
+
+    if (!options.expand?.length) {
+      return;
+    }
+
+    const navigationProperties = await this.getNavigationProperties(entityName);
+    this.assertValidNames(entityName, '$expand', options.expand.map(clause => clause.navigationProperty), new Set(navigationProperties.keys()));
+
+    for (const clause of options.expand) {
+      if (!clause.select?.length && !clause.orderBy?.length) {
+        continue;
+      }
+      
+      const targetEntity = navigationProperties.get(clause.navigationProperty)!;
+      const targetAttributeNames = await this.getValidAttributeNames(targetEntity);
+      this.assertValidNames(targetEntity, `$expand=${clause.navigationProperty} $select`, clause.select || [], targetAttributeNames);
+      this.assertValidNames(targetEntity, `$expand=${clause.navigationProperty} $orderby`, (clause.orderBy || []).map(orderBy => orderBy.attribute), targetAttributeNames);
+    }
+  }
+
+  /**
+   * Get the attribute names usable in $select and $orderby, including the _name_value form of lookups.
+   * Unlike getEntityAttributes, virtual (e.g. multi-select choice) and derived attributes are kept, since they can be queried too.
+   */
+  private async getValidAttributeNames(entityName: string): Promise<Set<string>> {
+    const attributes = await this.makeMetadataRequest<ApiCollectionResponse<any>>(`api/data/v9.2/EntityDefinitions(LogicalName='${entityName}')/Attributes?$select=LogicalName`);
+    const names = new Set<string>();
+    
+    for (const attribute of attributes.value) {
+      names.add(attribute.LogicalName);
+      names.add(`_${attribute.LogicalName}_value`);
+    }
+    
+    return names;
+  }
+
+  /**
+   * Get the navigation properties of an entity mapped to the logical name of the entity they lead to.
+   * One-to-many relationships are read unfiltered, since getEntityOneToManyRelationships leaves out
+   * regarding and msdyn_/adx_ relationships that are still valid in $expand.
+   */
+  private async getNavigationProperties(entityName: string): Promise<Map<string, string>> {
+    const [oneToMany, manyToOne, manyToMany] = await Promise.all([
+      this.makeMetadataRequest<ApiCollectionResponse<any>>(`api/data/v9.2/EntityDefinitions(LogicalName='${entityName}')/OneToManyRelationships?$select=ReferencedEntity,ReferencingEntity,ReferencedEntityNavigationPropertyName`),
+      this.getEntityManyToOneRelationships(entityName),
+      this.getEntityManyToManyRelationships(entityName)
+    ]);
+    
+    const navigationProperties = new Map<string, string>();
+    
+    for (const rel of oneToMany.value) {
+      if (rel.ReferencedEntity === entityName && rel.ReferencedEntityNavigationPropertyName) {
+        navigationProperties.set(rel.ReferencedEntityNavigationPropertyName, rel.ReferencingEntity);
+      }
+    }
+    
+    for (const rel of manyToOne.value) {
+      if (rel.ReferencingEntity === entityName && rel.ReferencingEntityNavigationPropertyName) {
+        navigationProperties.set(rel.ReferencingEntityNavigationPropertyName, rel.ReferencedEntity);
+      }
+    }
+    
+    for (const rel of manyToMany.value) {
+      if (rel.Entity1LogicalName === entityName && rel.Entity1NavigationPropertyName) {
+        navigationProperties.set(rel.Entity1NavigationPropertyName, rel.Entity2LogicalName);
+      }
+      if (rel.Entity2LogicalName === entityName && rel.Entity2NavigationPropertyName) {
+        navigationProperties.set(rel.Entity2NavigationPropertyName, rel.Entity1LogicalName);
+      }
+    }
+    
+    return navigationProperties;
+  }
+
+  /**
+   * Throw if any of the given names is not in the set of valid names
    */
-  async queryRecords(entityNamePlural: string, filter: string, maxRecords: number = 50): Promise<ApiCollectionResponse<any>> {
-    return this.makeRequest<ApiCollectionResponse<any>>(`api/data/v9.2/${entityNamePlural}?$filter=${encodeURIComponent(filter)}&$top=${maxRecords}`);
+  private assertValidNames(entityName: string, clause: string, names: string[], validNames: Set<string>): void {
+    const invalidNames = names.filter(name => !validNames.has(name));
+    
+    if (invalidNames.length > 0) {
+      const suggestions = invalidNames
+        .map(name => ({ name, similar: findSimilarNames(name, validNames) }))
+        .filter(({ similar }) => similar.length > 0)
+        .map(({ name, similar }) => `'${name}' → ${similar.join(', ')}`);
+      const suggestionText = suggestions.length ? `. Did you mean: ${suggestions.join('; ')}` : '';
+      throw new Error(`Invalid ${clause} name(s) for entity '${entityName}': ${invalidNames.join(', ')}${suggestionText}`);
+    }
+  }
+
+  /**
+   * Format $orderby clauses (e.g., "name asc,createdon desc")
+   */
+  private formatOrderBy(orderBy: OrderByClause[]): string {
+    return orderBy.map(clause => `${clause.attribute} ${clause.descending ? 'desc' : 'asc'}`).join(',');
+  }
+
+  /**
+   * Format an $expand clause with its nested options (e.g., "contact_customer_accounts($select=fullname;$top=5)")
+   */
+  private formatExpand(clause: ExpandClause): string {
+    const nestedOptions: string[] = [];
+    if (clause.select?.length) {
+      nestedOptions.push(`$select=${clause.select.join(',')}`);
+    }
+    if (clause.filter) {
+      nestedOptions.push(`$filter=${clause.filter}`);
+    }
+    if (clause.orderBy?.length) {
+      nestedOptions.push(`$orderby=${this.formatOrderBy(clause.orderBy)}`);
+    }
+    if (clause.top) {
+      nestedOptions.push(`$top=${clause.top}`);
+    }
+    
+    return nestedOptions.length ? `${clause.navigationProperty}(${nestedOptions.join(';')})` : clause.navigationProperty;
+  }
+
+  /**
+   * Convert an absolute @odata.nextLink into an endpoint relative to the organization URL
+   */
+  private toRelativeEndpoint(link: string): string {
+    const organizationUrl = this.config.organizationUrl.replace(/\/+$/, '');
+    if (link.startsWith(`${organizationUrl}/`)) {
+      return link.slice(organizationUrl.length + 1);
+    }
+    throw new Error(`Unexpected next link outside of the organization: ${link}`);
+  }
+
+  /**
+   * Get all records of a collection, following @odata.nextLink
+   * @param endpoint The collection endpoint, relative to the organization URL
+   */
+  private async getAllRecords<T>(endpoint: string): Promise<T[]> {
+    const records: T[] = [];
+    let nextEndpoint: string | undefined = endpoint;
+
+    while (nextEndpoint) {
+      const response: ApiCollectionResponse<T> = await this.makeRequest<ApiCollectionResponse<T>>(nextEndpoint);
+      records.push(...(response.value || []));
+      const nextLink = response['@odata.nextLink'];
+      nextEndpoint = nextLink ? this.toRelativeEndpoint(nextLink) : undefined;
+    }
+
+    return records;
+  }
+
+  /**
+   * Encode a next page endpoint as an opaque continuation token, with the options the next pages must reuse
+   */
+  private encodeContinuationToken(endpoint: string, pageSize: number, raw: boolean): string {
+    return Buffer.from(JSON.stringify({ endpoint, pageSize, raw })).toString('base64url');
+  }
+
+  /**
+   * Decode a continuation token produced by encodeContinuationToken
+   */
+  private decodeContinuationToken(token: string): { endpoint: string, pageSize: number, raw: boolean } {
+    try {
+      const decoded = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+      if (typeof decoded.endpoint === 'string' && decoded.endpoint.startsWith('api/data/') && typeof decoded.pageSize === 'number') {
+        return { endpoint: decoded.endpoint, pageSize: decoded.pageSize, raw: decoded.raw === true };
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new Error('Invalid continuation token');
+  }
+
+  /**
+   * Create a new record
+   * @param entityNamePlural The plural name of the entity (e.g., 'accounts', 'contacts') or its logical name (e.g., 'account')
+   * @param data The attribute values of the new record
+   * @returns The created record
+   */
+  async createRecord(entityNamePlural: string, data: Record<string, any>): Promise<any> {
+    this.assertWriteEnabled('Creating records');
+    const entitySetName = await this.resolveEntitySetName(entityNamePlural);
+    return this.makeRequest(`api/data/v9.2/${entitySetName}`, 'POST', data, {
+      'Prefer': 'return=representation'
+    });
+  }
+
+  /**
+   * Update an existing record
+   * @param entityNamePlural The plural name of the entity (e.g., 'accounts', 'contacts') or its logical name (e.g., 'account')
+   * @param recordId The GUID of the record
+   * @param data The attribute values to update
+   * @param etag Optional ETag of the record; the update fails if the record has changed since
+   * @returns The updated record
+   */
+  async updateRecord(entityNamePlural: string, recordId: string, data: Record<string, any>, etag?: string): Promise<any> {
+    this.assertWriteEnabled('Updating records');
+    const entitySetName = await this.resolveEntitySetName(entityNamePlural);
+    return this.makeRequest(`api/data/v9.2/${entitySetName}(${recordId})`, 'PATCH', data, {
+      'Prefer': 'return=representation',
+      // If-Match: * prevents the PATCH from creating the record when it doesn't exist
+      'If-Match': etag || '*'
+    });
+  }
+
+  /**
+   * Create a record or update it if it already exists
+   * @param entityNamePlural The plural name of the entity (e.g., 'accounts', 'contacts') or its logical name (e.g., 'account')
+   * @param recordId The GUID of the record, or an alternate key expression (e.g., "accountnumber='A-1'")
+   * @param data The attribute values of the record
+   * @returns The created or updated record
+   */
+  async upsertRecord(entityNamePlural: string, recordId: string, data: Record<string, any>): Promise<any> {
+    this.assertWriteEnabled('Upserting records');
+    const entitySetName = await this.resolveEntitySetName(entityNamePlural);
+    return this.makeRequest(`api/data/v9.2/${entitySetName}(${recordId})`, 'PATCH', data, {
+      'Prefer': 'return=representation'
+    });
+  }
+
+  /**
+   * Delete a record
+   * @param entityNamePlural The plural name of the entity (e.g., 'accounts', 'contacts') or its logical name (e.g., 'account')
+   * @param recordId The GUID of the record
+   * @param etag Optional ETag of the record; the delete fails if the record has changed since
+   */
+  async deleteRecord(entityNamePlural: string, recordId: string, etag?: string): Promise<void> {
+    this.assertWriteEnabled('Deleting records');
+    const entitySetName = await this.resolveEntitySetName(entityNamePlural);
+    await this.makeRequest(`api/data/v9.2/${entitySetName}(${recordId})`, 'DELETE', undefined, etag ? { 'If-Match': etag } : {});
   }
-}
\ No newline at end of file
+}
+
+// Split a comma-separated list of logical names, as used for filtering and image attributes
+function splitList(value: string | null | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// Position of a stage name in execution order
+function stageOrder(stage: string): number {
+  return Object.values(PLUGIN_STEP_STAGES).indexOf(stage);
+}
@@ -0,0 +1,110 @@
+import type { AttributeDetails } from './PowerPlatformService.js';
+import type { FormattedLookup, FormattedValue } from './recordFormatting.js';
+
+// A decoded value from an audit entry: a choice with its label, a lookup, or the value itself
+export type AuditValue = FormattedValue | FormattedLookup | string | number | null;
+
+// Before and after values of one attribute in an audit entry
+export interface AuditAttributeChange {
+  attribute: string;
+  displayName?: string;
+  oldValue?: AuditValue;
+  newValue?: AuditValue;
+}
+
+// Attribute types whose audited values are numbers
+const NUMBER_TYPES = ['Integer', 'BigInt', 'Decimal', 'Double', 'Money'];
+
+// Attribute types whose audited values are option values
+const CHOICE_TYPES = ['Picklist', 'State', 'Status', 'Boolean'];
+
+/**
+ * Decode the changedata column of an audit entry into before and after values per attribute.
+ * Dataverse stores the changes as JSON ({"changedAttributes":[{"logicalName","oldValue","newValue"}]});
+ * lookups are written as '<entity>,<id>' and choices as their option value.
+ * @param changeData The changedata column of the audit entry
+ * @param attributes The attribute metadata of the audited entity, used for labels and value types
+ * @returns The changes, or undefined when changedata is not JSON (entries written before the JSON format was introduced)
+ */
+export function parseAuditChangeData(changeData: string | null | undefined, attributes: AttributeDetails[]): AuditAttributeChange[] | undefined {
+  if (!changeData) {
+    return [];
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(changeData);
+  } catch {
+    return undefined;
+  }
+
+  const attributesByName = new Map(attributes.map(attribute => [attribute.logicalName, attribute]));
+  return (parsed?.changedAttributes || []).map((change: any) => {
+    const attribute = attributesByName.get(change.logicalName);
+    return {
+      attribute: change.logicalName,
+      displayName: attribute?.displayName,
+      oldValue: decodeAuditValue(change.oldValue, attribute),
+      newValue: decodeAuditValue(change.newValue, attribute),
+    };
+  });
+}
+
+/**
+ * Decode one audited value using the metadata of its attribute
+ * @param value The value as stored in changedata
+ * @param attribute The attribute metadata, if known
+ */
+export function decodeAuditValue(value: string | null | undefined, attribute?: AttributeDetails): AuditValue | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === null || value === '') {
+    return null;
+  }
+  if (!attribute) {
+    return value;
+  }
+
+  if (attribute.targets?.length) {
+    // Lookups are written as '<entity>,<id>'
+    const separator = value.indexOf(',');
+    return separator > 0
+      ? { id: value.slice(separator + 1), entity: value.slice(0, separator) } as FormattedLookup
+      : { id: value } as FormattedLookup;
+  }
+
+  if (attribute.attributeType === 'MultiSelectPicklist') {
+    const values = value.split(',').map(item => Number(item.trim()));
+    return { value: values, formatted: values.map(item => getOptionLabel(attribute, item)).join('; ') } as FormattedValue;
+  }
+
+  if (CHOICE_TYPES.includes(attribute.attributeType)) {
+    const optionValue = attribute.attributeType === 'Boolean' ? toBooleanOption(value) : Number(value);
+    if (Number.isNaN(optionValue)) {
+      return value;
+    }
+    return {
+      value: attribute.attributeType === 'Boolean' ? optionValue === 1 : optionValue,
+      formatted: getOptionLabel(attribute, optionValue),
+    } as FormattedValue;
+  }
+
+  if (NUMBER_TYPES.includes(attribute.attributeType)) {
+    const number = Number(value);
+    return Number.isNaN(number) ? value : number;
+  }
+
+  return value;
+}
+
+function toBooleanOption(value: string): number {
+  const lower = value.toLowerCase();
+  if (lower === 'true') return 1;
+  if (lower === 'false') return 0;
+  return Number(value);
+}
+
+function getOptionLabel(attribute: AttributeDetails, value: number): string {
+  return attribute.options?.find(option => option.value === value)?.label || String(value);
+}
@@ -0,0 +1,330 @@
+import {
+  ConfidentialClientApplication,
+  ICachePlugin,
+  ManagedIdentityApplication,
+  PublicClientApplication,
+  TokenCacheContext,
+} from '@azure/msal-node';
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Supported ways of authenticating against Dataverse
+export type AuthMethod = 'client-secret' | 'client-certificate' | 'device-code' | 'interactive' | 'managed-identity' | 'access-token';
+
+// An access token and the time it expires, if known
+export interface AccessToken {
+  token: string;
+  expiresOn?: Date;
+}
+
+// Interface for anything that can supply access tokens for a Dataverse organization
+export interface CredentialProvider {
+  /**
+   * Get an access token for the given resource
+   * @param resource The organization URL (e.g., 'https://yourenvironment.crm.dynamics.com')
+   */
+  getAccessToken(resource: string): Promise<AccessToken>;
+}
+
+// Settings used to build the credential provider for an authentication method
+export interface CredentialOptions {
+  authMethod?: AuthMethod; // Default: 'client-secret'
+  clientId?: string;
+  clientSecret?: string;
+  tenantId?: string;
+  certificateThumbprint?: string; // SHA-256 thumbprint of the client certificate (hex)
+  certificatePrivateKeyPath?: string; // Path to the PEM encoded private key of the client certificate
+  tokenCachePath?: string; // File used to persist device code and interactive tokens between runs
+  accessToken?: string; // Pre-issued bearer token
+}
+
+export const DEFAULT_TOKEN_CACHE_PATH = path.join(os.homedir(), '.powerplatform-mcp', 'token-cache.json');
+
+/**
+ * Client credentials flow using an app registration secret
+ */
+export class ClientSecretCredentialProvider implements CredentialProvider {
+  private msalClient: ConfidentialClientApplication;
+
+  constructor(clientId: string, clientSecret: string, tenantId: string) {
+    this.msalClient = new ConfidentialClientApplication({
+      auth: {
+        clientId,
+        clientSecret,
+        authority: `https://login.microsoftonline.com/${tenantId}`,
+      }
+    });
+  }
+
+  async getAccessToken(resource: string): Promise<AccessToken> {
+    const result = await this.msalClient.acquireTokenByClientCredential({
+      scopes: [`${resource}/.default`],
+    });
+
+    if (!result || !result.accessToken) {
+      throw new Error('Failed to acquire access token');
+    }
+
+    return { token: result.accessToken, expiresOn: result.expiresOn || undefined };
+  }
+}
+
+/**
+ * Client credentials flow using a certificate registered on the app registration
+ */
+export class ClientCertificateCredentialProvider implements CredentialProvider {
+  private msalClient: ConfidentialClientApplication;
+
+  constructor(clientId: string, tenantId: string, thumbprint: string, privateKey: string) {
+    this.msalClient = new ConfidentialClientApplication({
+      auth: {
+        clientId,
+        clientCertificate: {
+          thumbprintSha256: thumbprint,
+          privateKey,
+        },
+        authority: `https://login.microsoftonline.com/${tenantId}`,
+      }
+    });
+  }
+
+  async getAccessToken(resource: string): Promise<AccessToken> {
+    const result = await this.msalClient.acquireTokenByClientCredential({
+      scopes: [`${resource}/.default`],
+    });
+
+    if (!result || !result.accessToken) {
+      throw new Error('Failed to acquire access token');
+    }
+
+    return { token: result.accessToken, expiresOn: result.expiresOn || undefined };
+  }
+}
+
+/**
+ * Device code flow for signing in as a user. Tokens are persisted to a cache file
+ * so the user only has to sign in again when the refresh token expires.
+ */
+export class DeviceCodeCredentialProvider implements CredentialProvider {
+  private msalClient: PublicClientApplication;
+
+  constructor(clientId: string, tenantId: string = 'organizations', tokenCachePath: string = DEFAULT_TOKEN_CACHE_PATH) {
+    this.msalClient = createPublicClient(clientId, tenantId, tokenCachePath);
+  }
+
+  async getAccessToken(resource: string): Promise<AccessToken> {
+    const scopes = [`${resource}/.default`];
+    const cached = await acquireTokenFromCache(this.msalClient, scopes);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.msalClient.acquireTokenByDeviceCode({
+      scopes,
+      // stdout carries the MCP protocol, so the sign-in instructions go to stderr
+      deviceCodeCallback: (response) => console.error(response.message),
+    });
+
+    if (!result || !result.accessToken) {
+      throw new Error('Failed to acquire access token');
+    }
+
+    return { token: result.accessToken, expiresOn: result.expiresOn || undefined };
+  }
+}
+
+/**
+ * Interactive browser sign-in for local users. The app registration needs the
+ * 'http://localhost' redirect URI; tokens are cached like device code tokens.
+ */
+export class InteractiveCredentialProvider implements CredentialProvider {
+  private msalClient: PublicClientApplication;
+
+  constructor(clientId: string, tenantId: string = 'organizations', tokenCachePath: string = DEFAULT_TOKEN_CACHE_PATH) {
+    this.msalClient = createPublicClient(clientId, tenantId, tokenCachePath);
+  }
+
+  async getAccessToken(resource: string): Promise<AccessToken> {
+    const scopes = [`${resource}/.default`];
+    const cached = await acquireTokenFromCache(this.msalClient, scopes);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.msalClient.acquireTokenInteractive({
+      scopes,
+      openBrowser: async (url) => {
+        // stdout carries the MCP protocol, so the sign-in link goes to stderr in case no browser opens
+        console.error(`Sign in to PowerPlatform in your browser: ${url}`);
+        openBrowser(url);
+      },
+      successTemplate: 'Signed in. You can close this window and return to your MCP client.',
+    });
+
+    if (!result || !result.accessToken) {
+      throw new Error('Failed to acquire access token');
+    }
+
+    return { token: result.accessToken, expiresOn: result.expiresOn || undefined };
+  }
+}
+
+/**
+ * Azure managed identity, for servers hosted in Azure
+ */
+export class ManagedIdentityCredentialProvider implements CredentialProvider {
+  private msalClient: ManagedIdentityApplication;
+
+  constructor(userAssignedClientId?: string) {
+    this.msalClient = new ManagedIdentityApplication(
+      userAssignedClientId ? { managedIdentityIdParams: { userAssignedClientId } } : {}
+    );
+  }
+
+  async getAccessToken(resource: string): Promise<AccessToken> {
+    const result = await this.msalClient.acquireToken({ resource });
+
+    if (!result || !result.accessToken) {
+      throw new Error('Failed to acquire access token');
+    }
+
+    return { token: result.accessToken, expiresOn: result.expiresOn || undefined };
+  }
+}
+
+/**
+ * A pre-issued bearer token, e.g. from `az account get-access-token`
+ */
+export class StaticTokenCredentialProvider implements CredentialProvider {
+  constructor(private token: string) {}
+
+  async getAccessToken(): Promise<AccessToken> {
+    return { token: this.token };
+  }
+}
+
+/**
+ * Get the names of the settings an authentication method requires but that are missing
+ * @param options The credential settings
+ * @returns The names of the missing settings
+ */
+export function getMissingCredentialOptions(options: CredentialOptions): string[] {
+  const required: Record<AuthMethod, (keyof CredentialOptions)[]> = {
+    'client-secret': ['clientId', 'clientSecret', 'tenantId'],
+    'client-certificate': ['clientId', 'tenantId', 'certificateThumbprint', 'certificatePrivateKeyPath'],
+    'device-code': ['clientId'],
+    'interactive': ['clientId'],
+    'managed-identity': [],
+    'access-token': ['accessToken'],
+  };
+
+  const authMethod = options.authMethod || 'client-secret';
+  if (!(authMethod in required)) {
+    throw new Error(`Unknown authentication method '${authMethod}'. Use one of: ${Object.keys(required).join(', ')}`);
+  }
+
+  return required[authMethod].filter(key => !options[key]);
+}
+
+/**
+ * Create the credential provider for the configured authentication method
+ * @param options The credential settings
+ * @returns The credential provider
+ */
+export function createCredentialProvider(options: CredentialOptions): CredentialProvider {
+  const missing = getMissingCredentialOptions(options);
+  if (missing.length > 0) {
+    throw new Error(`Missing PowerPlatform configuration: ${missing.join(", ")}`);
+  }
+
+  switch (options.authMethod || 'client-secret') {
+    case 'client-secret':
+      return new ClientSecretCredentialProvider(options.clientId!, options.clientSecret!, options.tenantId!);
+    case 'client-certificate':
+      return new ClientCertificateCredentialProvider(
+        options.clientId!,
+        options.tenantId!,
+        options.certificateThumbprint!,
+        fs.readFileSync(options.certificatePrivateKeyPath!, 'utf8')
+      );
+    case 'device-code':
+      return new DeviceCodeCredentialProvider(options.clientId!, options.tenantId, options.tokenCachePath);
+    case 'interactive':
+      return new InteractiveCredentialProvider(options.clientId!, options.tenantId, options.tokenCachePath);
+    case 'managed-identity':
+      return new ManagedIdentityCredentialProvider(options.clientId);
+    case 'access-token':
+      return new StaticTokenCredentialProvider(options.accessToken!);
+  }
+}
+
+/**
+ * Public client for user sign-in, with its token cache persisted to a file
+ */
+function createPublicClient(clientId: string, tenantId: string, tokenCachePath: string): PublicClientApplication {
+  return new PublicClientApplication({
+    auth: {
+      clientId,
+      authority: `https://login.microsoftonline.com/${tenantId}`,
+    },
+    cache: {
+      cachePlugin: createFileCachePlugin(tokenCachePath),
+    }
+  });
+}
+
+/**
+ * Get a token for the signed-in user from the cache, refreshing it if needed
+ * @returns The token, or undefined when nobody is signed in or the refresh token has expired
+ */
+async function acquireTokenFromCache(msalClient: PublicClientApplication, scopes: string[]): Promise<AccessToken | undefined> {
+  const [account] = await msalClient.getTokenCache().getAllAccounts();
+  if (!account) {
+    return undefined;
+  }
+
+  try {
+    const result = await msalClient.acquireTokenSilent({ account, scopes });
+    if (result?.accessToken) {
+      return { token: result.accessToken, expiresOn: result.expiresOn || undefined };
+    }
+  } catch (error) {
+    console.error('Cached sign-in could not be refreshed, signing in again:', error);
+  }
+  return undefined;
+}
+
+/**
+ * Open a URL in the default browser
+ */
+function openBrowser(url: string): void {
+  // rundll32 takes the URL as a plain argument; going through cmd would treat the '&' in the query string as a command separator
+  const [command, args]: [string, string[]] = process.platform === 'win32'
+    ? ['rundll32', ['url.dll,FileProtocolHandler', url]]
+    : [process.platform === 'darwin' ? 'open' : 'xdg-open', [url]];
+  const child = spawn(command, args, { detached: true, stdio: 'ignore' });
+  // The URL has been written to stderr, so a missing browser is not fatal
+  child.on('error', (error) => console.error(`Could not open a browser: ${error.message}`));
+  child.unref();
+}
+
+/**
+ * MSAL cache plugin that persists the token cache to a file readable only by the current user
+ */
+function createFileCachePlugin(cachePath: string): ICachePlugin {
+  return {
+    async beforeCacheAccess(context: TokenCacheContext): Promise<void> {
+      if (fs.existsSync(cachePath)) {
+        context.tokenCache.deserialize(await fs.promises.readFile(cachePath, 'utf8'));
+      }
+    },
+    async afterCacheAccess(context: TokenCacheContext): Promise<void> {
+      if (context.cacheHasChanged) {
+        await fs.promises.mkdir(path.dirname(cachePath), { recursive: true });
+        await fs.promises.writeFile(cachePath, context.tokenCache.serialize(), { mode: 0o600 });
+      }
+    },
+  };
+}
@@ -0,0 +1,135 @@
+import fs from 'fs';
+import { AuthMethod } from './credentials.js';
+import { PowerPlatformConfig } from './PowerPlatformService.js';
+
+// Named environments the server can connect to
+export interface EnvironmentsConfig {
+  defaultEnvironment: string;
+  environments: Record<string, PowerPlatformConfig>;
+}
+
+// Name of the environment configured through POWERPLATFORM_* environment variables
+export const DEFAULT_ENVIRONMENT_NAME = 'default';
+
+// Smallest accepted value of each numeric setting
+const NUMERIC_SETTINGS = {
+  metadataCacheTtlSeconds: 0,
+  maxRetries: 0,
+  requestTimeoutMs: 1,
+  maxConcurrentRequests: 1,
+} satisfies Partial<Record<keyof PowerPlatformConfig, number>>;
+
+/**
+ * Load the environment configuration.
+ * When POWERPLATFORM_CONFIG_FILE is set, environments are read from that JSON file; otherwise
+ * a single 'default' environment is built from the POWERPLATFORM_* environment variables.
+ * @returns The environment configuration
+ */
+export function loadEnvironmentsConfig(): EnvironmentsConfig {
+  const configFile = process.env.POWERPLATFORM_CONFIG_FILE;
+  if (!configFile) {
+    return {
+      defaultEnvironment: DEFAULT_ENVIRONMENT_NAME,
+      environments: { [DEFAULT_ENVIRONMENT_NAME]: getConfigFromEnvironmentVariables() },
+    };
+  }
+
+  return readEnvironmentsConfigFile(configFile);
+}
+
+/**
+ * Build a configuration from the POWERPLATFORM_* environment variables
+ */
+export function getConfigFromEnvironmentVariables(): PowerPlatformConfig {
+  return {
+    organizationUrl: process.env.POWERPLATFORM_URL || "",
+    authMethod: (process.env.POWERPLATFORM_AUTH_METHOD || "client-secret") as AuthMethod,
+    clientId: process.env.POWERPLATFORM_CLIENT_ID || "",
+    clientSecret: process.env.POWERPLATFORM_CLIENT_SECRET || "",
+    tenantId: process.env.POWERPLATFORM_TENANT_ID || "",
+    certificateThumbprint: process.env.POWERPLATFORM_CERTIFICATE_THUMBPRINT || "",
+    certificatePrivateKeyPath: process.env.POWERPLATFORM_CERTIFICATE_KEY_PATH || "",
+    tokenCachePath: process.env.POWERPLATFORM_TOKEN_CACHE_PATH || undefined,
+    accessToken: process.env.POWERPLATFORM_ACCESS_TOKEN || "",
+    enableWrite: process.env.POWERPLATFORM_ENABLE_WRITE === "true",
+    metadataCacheTtlSeconds: readNumberVariable('POWERPLATFORM_METADATA_CACHE_TTL', NUMERIC_SETTINGS.metadataCacheTtlSeconds),
+    metadataCachePath: process.env.POWERPLATFORM_METADATA_CACHE_PATH || undefined,
+    maxRetries: readNumberVariable('POWERPLATFORM_MAX_RETRIES', NUMERIC_SETTINGS.maxRetries),
+    requestTimeoutMs: readNumberVariable('POWERPLATFORM_REQUEST_TIMEOUT_MS', NUMERIC_SETTINGS.requestTimeoutMs),
+    maxConcurrentRequests: readNumberVariable('POWERPLATFORM_MAX_CONCURRENT_REQUESTS', NUMERIC_SETTINGS.maxConcurrentRequests),
+  };
+}
+
+/**
+ * Read named environments from a JSON file of the form
+ * { "defaultEnvironment": "dev", "environments": { "dev": { "organizationUrl": "...", ... } } }.
+ * String values may reference environment variables as ${NAME} so secrets stay out of the file.
+ */
+function readEnvironmentsConfigFile(configFile: string): EnvironmentsConfig {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Failed to read PowerPlatform config file '${configFile}': ${error.message}`);
+  }
+
+  const environments = parsed?.environments;
+  if (!environments || typeof environments !== 'object' || Object.keys(environments).length === 0) {
+    throw new Error(`PowerPlatform config file '${configFile}' must define at least one entry in "environments"`);
+  }
+
+  for (const [name, config] of Object.entries(environments)) {
+    environments[name] = substituteEnvironmentVariables(config);
+    const enableWrite = environments[name].enableWrite;
+    if (enableWrite !== undefined && typeof enableWrite !== 'boolean') {
+      throw new Error(`Invalid enableWrite '${enableWrite}' for environment '${name}' in PowerPlatform config file '${configFile}': expected true or false (a JSON boolean, not a string)`);
+    }
+    for (const [setting, minimum] of Object.entries(NUMERIC_SETTINGS)) {
+      const value = environments[name][setting];
+      if (value !== undefined && !isValidNumber(value, minimum)) {
+        throw new Error(`Invalid ${setting} '${value}' for environment '${name}' in PowerPlatform config file '${configFile}': expected a whole number of at least ${minimum}`);
+      }
+    }
+  }
+
+  const defaultEnvironment = parsed.defaultEnvironment || Object.keys(environments)[0];
+  if (!(defaultEnvironment in environments)) {
+    throw new Error(`Default environment '${defaultEnvironment}' is not defined in PowerPlatform config file '${configFile}'`);
+  }
+
+  return { defaultEnvironment, environments };
+}
+
+function substituteEnvironmentVariables(value: any): any {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)\}/g, (_match, name: string) => process.env[name] || '');
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, substituteEnvironmentVariables(item)]));
+  }
+  return value;
+}
+
+/**
+ * Read a numeric environment variable
+ * @param name The name of the variable
+ * @param minimum The smallest accepted value
+ * @returns The value, or undefined when the variable is not set
+ * @throws Error when the variable is not a whole number of at least minimum
+ */
+function readNumberVariable(name: string, minimum: number): number | undefined {
+  const value = process.env[name];
+  if (!value) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (!isValidNumber(number, minimum)) {
+    throw new Error(`Invalid ${name} '${value}': expected a whole number of at least ${minimum}`);
+  }
+  return number;
+}
+
+function isValidNumber(value: unknown, minimum: number): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= minimum;
+}
@@ -0,0 +1,136 @@
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+
+// Summary of a FetchXML query needed to execute it and shape its results
+export interface FetchXmlInfo {
+  entityName: string; // Logical name of the root entity
+  aggregate: boolean; // Whether the query uses aggregation (aggregate="true")
+  columns: string[]; // Aliases of the attributes in document order (aggregate queries)
+  top?: number; // The top attribute, which disables paging
+  count?: number; // The count attribute, used as the page size
+  page?: number; // The page attribute
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  isArray: (name) => name === 'attribute' || name === 'link-entity',
+});
+
+/**
+ * Validate that a FetchXML query is well-formed and read the details needed to execute it
+ * @param fetchXml The FetchXML query
+ * @returns Information about the query
+ */
+export function parseFetchXml(fetchXml: string): FetchXmlInfo {
+  const validation = XMLValidator.validate(fetchXml);
+  if (validation !== true) {
+    const { msg, line, col } = validation.err;
+    throw new Error(`FetchXML is not well-formed: ${msg} (line ${line}, column ${col})`);
+  }
+
+  const document = parser.parse(fetchXml);
+  const fetch = document.fetch;
+  if (!fetch || typeof fetch !== 'object') {
+    throw new Error('FetchXML must have a <fetch> root element');
+  }
+
+  const entity = fetch.entity;
+  if (!entity || Array.isArray(entity) || !entity.name) {
+    throw new Error('FetchXML must contain exactly one <entity> element with a name attribute');
+  }
+
+  return {
+    entityName: entity.name,
+    aggregate: fetch.aggregate === 'true',
+    columns: collectAliases(entity),
+    top: parseOptionalInt(fetch.top),
+    count: parseOptionalInt(fetch.count),
+    page: parseOptionalInt(fetch.page),
+  };
+}
+
+/**
+ * Set the paging attributes on the <fetch> element of a FetchXML query
+ * @param fetchXml The FetchXML query
+ * @param page The page number to request
+ * @param pagingCookie The paging cookie returned with the previous page
+ * @returns The FetchXML query with the paging attributes set
+ */
+export function setFetchXmlPaging(fetchXml: string, page: number, pagingCookie?: string): string {
+  return fetchXml.replace(/<fetch\b([^>]*?)(\/?)>/, (_match, attributes: string, selfClosing: string) => {
+    let updated = setXmlAttribute(attributes, 'page', String(page));
+    if (pagingCookie) {
+      updated = setXmlAttribute(updated, 'paging-cookie', pagingCookie);
+    }
+    return `<fetch${updated}${selfClosing}>`;
+  });
+}
+
+/**
+ * Read the paging cookie from the @Microsoft.Dynamics.CRM.fetchxmlpagingcookie annotation
+ * @param annotation The annotation value (e.g., '<cookie pagenumber="2" pagingcookie="%253ccookie..." />')
+ * @returns The decoded paging cookie, or undefined if the annotation has none
+ */
+export function extractPagingCookie(annotation: string | undefined): string | undefined {
+  const match = annotation?.match(/pagingcookie="([^"]*)"/);
+  if (!match) {
+    return undefined;
+  }
+
+  // The cookie is URL-encoded twice
+  return decodeURIComponent(decodeURIComponent(match[1]));
+}
+
+/**
+ * Format the records of an aggregate query as tidy rows with one column per alias.
+ * Formatted values (option labels, lookup names, currency) are added as '<alias>_formatted' columns.
+ * @param records The records returned by the aggregate query
+ * @param columns The aliases of the aggregate and group-by attributes
+ * @returns The tidy rows
+ */
+export function formatAggregateRows(records: any[], columns: string[]): Record<string, any>[] {
+  return records.map((record) => {
+    const row: Record<string, any> = {};
+    for (const column of columns) {
+      const value = record[column] ?? null;
+      row[column] = value;
+
+      const formatted = record[`${column}@OData.Community.Display.V1.FormattedValue`];
+      if (formatted !== undefined && formatted !== String(value)) {
+        row[`${column}_formatted`] = formatted;
+      }
+    }
+    return row;
+  });
+}
+
+function collectAliases(entity: any): string[] {
+  const aliases: string[] = [];
+  for (const attribute of entity.attribute || []) {
+    if (attribute.alias) {
+      aliases.push(attribute.alias);
+    }
+  }
+  for (const linkEntity of entity['link-entity'] || []) {
+    aliases.push(...collectAliases(linkEntity));
+  }
+  return aliases;
+}
+
+function parseOptionalInt(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : parseInt(value, 10);
+}
+
+function setXmlAttribute(attributes: string, name: string, value: string): string {
+  const escaped = value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+  const pattern = new RegExp(`\\s${name}=("[^"]*"|'[^']*')`);
+
+  if (pattern.test(attributes)) {
+    return attributes.replace(pattern, () => ` ${name}="${escaped}"`);
+  }
+  return `${attributes} ${name}="${escaped}"`;
+}
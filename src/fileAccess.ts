@@ -0,0 +1,71 @@
+import fs from 'fs';
+import path from 'path';
+
+// Where tools may read and write files on the server (solution packages, schema snapshots and exports)
+export interface FileAccessOptions {
+  baseDirectory?: string; // Absolute directory tool paths are confined to; paths are unrestricted when not set
+  disabled?: boolean; // Set when tools must not touch the file system at all
+}
+
+/**
+ * Read the file access settings from POWERPLATFORM_FILES_DIRECTORY.
+ * Over the HTTP transport any authenticated caller could otherwise read or overwrite files on the host,
+ * so file tools are disabled there unless a directory is configured.
+ * @param transport The transport the server runs with ('stdio' or 'http')
+ * @returns The settings
+ */
+export function loadFileAccessOptions(transport: string): FileAccessOptions {
+  const configuredDirectory = process.env.POWERPLATFORM_FILES_DIRECTORY;
+  if (!configuredDirectory) {
+    return transport === 'http' ? { disabled: true } : {};
+  }
+
+  const baseDirectory = path.resolve(configuredDirectory);
+  if (!fs.existsSync(baseDirectory) || !fs.statSync(baseDirectory).isDirectory()) {
+    throw new Error(`POWERPLATFORM_FILES_DIRECTORY '${configuredDirectory}' is not an existing directory`);
+  }
+  return { baseDirectory };
+}
+
+/**
+ * Resolve a path given to a tool. With a base directory, relative paths are resolved against it
+ * and paths leading outside of it, directly or through symbolic links, are rejected.
+ * @param requestedPath The path the caller gave
+ * @param options The file access settings
+ * @returns The absolute path
+ * @throws Error when the path may not be used
+ */
+export function resolveToolPath(requestedPath: string, options: FileAccessOptions): string {
+  if (options.disabled) {
+    throw new Error('Tools reading or writing files are disabled over the HTTP transport. Set POWERPLATFORM_FILES_DIRECTORY to the directory they may use.');
+  }
+  if (!options.baseDirectory) {
+    return path.resolve(requestedPath);
+  }
+
+  const target = path.resolve(options.baseDirectory, requestedPath);
+  if (!isWithin(options.baseDirectory, target) || !isWithin(fs.realpathSync(options.baseDirectory), realpathOfExistingPart(target))) {
+    throw new Error(`Path '${requestedPath}' is outside of the files directory '${options.baseDirectory}'`);
+  }
+  return target;
+}
+
+function isWithin(directory: string, target: string): boolean {
+  const relative = path.relative(directory, target);
+  return relative === '' || (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative));
+}
+
+// Resolve symbolic links in the part of the path that already exists, so a link can't lead outside
+function realpathOfExistingPart(target: string): string {
+  let existing = target;
+  const missing: string[] = [];
+  while (!fs.existsSync(existing)) {
+    const parent = path.dirname(existing);
+    if (parent === existing) {
+      break;
+    }
+    missing.unshift(path.basename(existing));
+    existing = parent;
+  }
+  return path.join(fs.realpathSync(existing), ...missing);
+}
@@ -0,0 +1,169 @@
+// Readable summary of a cloud flow definition (the clientdata column of a workflow)
+export interface FlowDefinitionSummary {
+  triggers: FlowTriggerSummary[];
+  actions: FlowActionSummary[]; // In definition order, nested actions following their container
+  connectors: string[]; // API names of the connectors used (e.g., 'shared_commondataserviceforapps')
+}
+
+export interface FlowTriggerSummary {
+  name: string;
+  type: string; // e.g. 'OpenApiConnectionWebhook', 'Recurrence', 'Request'
+  connector?: string;
+  operation?: string; // Connector operation ID (e.g., 'SubscribeWebhookTrigger')
+  entity?: string; // Dataverse triggers: the entity set or logical name the trigger watches
+  message?: string; // Dataverse triggers: e.g. 'Create or Update'
+  filteringAttributes?: string[]; // Dataverse triggers: only fire when one of these changes
+  scope?: string; // Dataverse triggers: 'User', 'Business Unit', 'Parent: Child Business Unit' or 'Organization'
+  recurrence?: string; // Recurrence triggers: e.g. 'every 1 Day'
+}
+
+export interface FlowActionSummary {
+  name: string;
+  type: string; // e.g. 'OpenApiConnection', 'If', 'Foreach', 'Compose'
+  depth: number; // 0 for top-level actions, 1 inside a condition, scope or loop, and so on
+  connector?: string;
+  operation?: string;
+  runAfter?: string[]; // Actions this one waits for
+}
+
+// Values of subscriptionRequest/message in Dataverse triggers
+const DATAVERSE_TRIGGER_MESSAGES: Record<number, string> = {
+  1: 'Create',
+  2: 'Delete',
+  3: 'Update',
+  4: 'Create or Update',
+  5: 'Create or Delete',
+  6: 'Update or Delete',
+  7: 'Create, Update or Delete',
+};
+
+// Values of subscriptionRequest/scope in Dataverse triggers
+const DATAVERSE_TRIGGER_SCOPES: Record<number, string> = {
+  1: 'User',
+  2: 'Business Unit',
+  3: 'Parent: Child Business Unit',
+  4: 'Organization',
+};
+
+/**
+ * Parse the clientdata of a cloud flow into a summary of its triggers, actions and connectors
+ * @param clientData The clientdata JSON of the workflow
+ * @returns The flow summary
+ */
+export function parseFlowClientData(clientData: string): FlowDefinitionSummary {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(clientData);
+  } catch (error: any) {
+    throw new Error(`Flow clientdata is not valid JSON: ${error.message}`);
+  }
+
+  const definition = parsed?.properties?.definition;
+  if (!definition || typeof definition !== 'object') {
+    throw new Error('Flow clientdata does not contain properties.definition');
+  }
+
+  const connectionReferences: Record<string, any> = parsed.properties.connectionReferences || {};
+  const resolveConnector = (host: any): string | undefined => {
+    if (!host) return undefined;
+    // Solution-aware flows reference a connection reference by name, others carry the API ID
+    const reference = host.connectionName ? connectionReferences[host.connectionName] : undefined;
+    const apiName = reference?.api?.name || (typeof host.apiId === 'string' ? host.apiId.split('/').pop() : undefined);
+    return apiName || host.connectionName;
+  };
+
+  const triggers = Object.entries<any>(definition.triggers || {}).map(([name, trigger]) => parseTrigger(name, trigger, resolveConnector));
+
+  const actions: FlowActionSummary[] = [];
+  collectActions(definition.actions, 0, actions, resolveConnector);
+
+  const connectors = new Set<string>();
+  for (const step of [...triggers, ...actions]) {
+    if (step.connector) {
+      connectors.add(step.connector);
+    }
+  }
+  for (const reference of Object.values<any>(connectionReferences)) {
+    if (reference?.api?.name) {
+      connectors.add(reference.api.name);
+    }
+  }
+
+  return {
+    triggers,
+    actions,
+    connectors: [...connectors].sort(),
+  };
+}
+
+/**
+ * Get the entity a cloud flow's Dataverse trigger watches, if any
+ * @param summary The parsed flow definition
+ */
+export function getFlowTriggerEntity(summary: FlowDefinitionSummary): string | undefined {
+  return summary.triggers.find(trigger => trigger.entity)?.entity;
+}
+
+function parseTrigger(name: string, trigger: any, resolveConnector: (host: any) => string | undefined): FlowTriggerSummary {
+  const summary: FlowTriggerSummary = {
+    name,
+    type: trigger?.type || 'Unknown',
+  };
+
+  const host = trigger?.inputs?.host;
+  if (host) {
+    summary.connector = resolveConnector(host);
+    summary.operation = host.operationId;
+  }
+
+  const parameters = trigger?.inputs?.parameters || {};
+  if (parameters['subscriptionRequest/entityname']) {
+    summary.entity = parameters['subscriptionRequest/entityname'];
+    const message = Number(parameters['subscriptionRequest/message']);
+    summary.message = DATAVERSE_TRIGGER_MESSAGES[message] || (Number.isNaN(message) ? undefined : String(message));
+    const scope = Number(parameters['subscriptionRequest/scope']);
+    summary.scope = DATAVERSE_TRIGGER_SCOPES[scope];
+    if (parameters['subscriptionRequest/filteringattributes']) {
+      summary.filteringAttributes = String(parameters['subscriptionRequest/filteringattributes'])
+        .split(',')
+        .map(attribute => attribute.trim())
+        .filter(Boolean);
+    }
+  }
+
+  if (trigger?.recurrence) {
+    summary.recurrence = `every ${trigger.recurrence.interval} ${trigger.recurrence.frequency}`;
+  }
+
+  return summary;
+}
+
+function collectActions(actions: any, depth: number, result: FlowActionSummary[], resolveConnector: (host: any) => string | undefined): void {
+  for (const [name, action] of Object.entries<any>(actions || {})) {
+    const summary: FlowActionSummary = {
+      name,
+      type: action?.type || 'Unknown',
+      depth,
+    };
+
+    const host = action?.inputs?.host;
+    if (host) {
+      summary.connector = resolveConnector(host);
+      summary.operation = host.operationId;
+    }
+
+    const runAfter = Object.keys(action?.runAfter || {});
+    if (runAfter.length) {
+      summary.runAfter = runAfter;
+    }
+    result.push(summary);
+
+    // Conditions, scopes, loops and switches contain further actions
+    collectActions(action?.actions, depth + 1, result, resolveConnector);
+    collectActions(action?.else?.actions, depth + 1, result, resolveConnector);
+    collectActions(action?.default?.actions, depth + 1, result, resolveConnector);
+    for (const switchCase of Object.values<any>(action?.cases || {})) {
+      collectActions(switchCase?.actions, depth + 1, result, resolveConnector);
+    }
+  }
+}
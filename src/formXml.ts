@@ -0,0 +1,113 @@
+import { XMLParser } from 'fast-xml-parser';
+
+// Outline of a form: its tabs, sections and the fields and other controls in them
+export interface FormLayout {
+  tabs: FormTabLayout[];
+  header: FormControlSummary[];
+  footer: FormControlSummary[];
+}
+
+export interface FormTabLayout {
+  name: string;
+  label?: string;
+  visible: boolean;
+  sections: FormSectionLayout[];
+}
+
+export interface FormSectionLayout {
+  name: string;
+  label?: string;
+  visible: boolean;
+  controls: FormControlSummary[];
+}
+
+export interface FormControlSummary {
+  kind: string; // 'Field', 'Subgrid', 'Quick View', 'Web Resource', 'Timeline' or 'Other'
+  name: string; // Logical name of the field, or the control ID for other controls
+  label?: string;
+  visible?: boolean; // Set to false for hidden controls
+  disabled?: boolean; // Set for read-only fields
+}
+
+// Control class IDs of the controls that aren't bound to a field
+const CONTROL_KINDS: Record<string, string> = {
+  '{e7a81278-8635-4d9e-8d4d-59480b391c5b}': 'Subgrid',
+  '{5c5600e0-1d6e-4205-a272-be80da87fd42}': 'Quick View',
+  '{9fdf5f91-88b1-47f4-ad53-c11efc01a01d}': 'Web Resource',
+  '{06375649-c143-495e-a496-c962e5b4488e}': 'Timeline',
+};
+
+// Language of the labels to show when a form has labels in several languages
+const PREFERRED_LANGUAGE_CODE = '1033';
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  parseAttributeValue: false,
+  isArray: (name) => ['tab', 'column', 'section', 'row', 'cell', 'label'].includes(name),
+});
+
+/**
+ * Parse the formxml of a system form into an outline of tabs, sections and controls
+ * @param formXml The formxml column of the form
+ * @returns The form layout
+ */
+export function parseFormXml(formXml: string): FormLayout {
+  const form = parser.parse(formXml)?.form;
+  if (!form || typeof form !== 'object') {
+    throw new Error('Form XML must have a <form> root element');
+  }
+
+  const tabs: FormTabLayout[] = (form.tabs?.tab || []).map((tab: any) => ({
+    name: tab.name || tab.id,
+    label: getLabel(tab.labels),
+    visible: tab.visible !== 'false',
+    sections: (tab.columns?.column || []).flatMap((column: any) => (column.sections?.section || []).map((section: any) => ({
+      name: section.name || section.id,
+      label: getLabel(section.labels),
+      visible: section.visible !== 'false',
+      controls: collectControls(section.rows),
+    }))),
+  }));
+
+  return {
+    tabs,
+    header: collectControls(form.header?.rows),
+    footer: collectControls(form.footer?.rows),
+  };
+}
+
+function collectControls(rows: any): FormControlSummary[] {
+  const controls: FormControlSummary[] = [];
+
+  for (const row of rows?.row || []) {
+    for (const cell of row.cell || []) {
+      const control = cell.control;
+      if (!control) {
+        continue;
+      }
+
+      const kind = control.datafieldname ? 'Field' : CONTROL_KINDS[String(control.classid || '').toLowerCase()] || 'Other';
+      const summary: FormControlSummary = {
+        kind,
+        name: control.datafieldname || control.id,
+        label: getLabel(cell.labels),
+      };
+      if (cell.visible === 'false') {
+        summary.visible = false;
+      }
+      if (control.disabled === 'true') {
+        summary.disabled = true;
+      }
+      controls.push(summary);
+    }
+  }
+
+  return controls;
+}
+
+function getLabel(labels: any): string | undefined {
+  const entries: any[] = labels?.label || [];
+  const label = entries.find(entry => entry.languagecode === PREFERRED_LANGUAGE_CODE) || entries[0];
+  return label?.description || undefined;
+}
@@ -0,0 +1,220 @@
+import { randomUUID } from 'crypto';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createRequestAuthenticator, InboundAuthOptions } from './inboundAuth.js';
+
+// Settings for the HTTP transport
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  auth: InboundAuthOptions | null; // null only when unauthenticated access was explicitly allowed
+  sessionIdleTimeoutMs?: number; // Streamable HTTP sessions without requests for this long are closed (default: 30 minutes)
+  maxSessions?: number; // Open sessions allowed across both transports (default: 100)
+}
+
+// An open session and who opened it
+interface Session<T> {
+  transport: T;
+  principal: string; // The authenticated caller; only they may use the session
+  lastActivity: number;
+}
+
+// Largest JSON-RPC request body accepted
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 100;
+
+// Principal of all callers when unauthenticated access is allowed
+const ANONYMOUS_PRINCIPAL = 'anonymous';
+
+/**
+ * Serve MCP over HTTP.
+ * - POST/GET/DELETE /mcp: streamable HTTP transport
+ * - GET /sse and POST /messages: legacy HTTP+SSE transport for older clients
+ * - GET /health: unauthenticated health check
+ * Each session gets its own server instance from createServer and is bound to the caller that opened it.
+ * Clients that never end their streamable HTTP session with DELETE have it closed once it has been idle.
+ * @param createServer Function creating a server with all tools and prompts registered
+ * @param options The HTTP settings
+ * @returns The listening HTTP server
+ */
+export async function startHttpServer(createServer: () => McpServer, options: HttpServerOptions): Promise<http.Server> {
+  const streamableSessions = new Map<string, Session<StreamableHTTPServerTransport>>();
+  const sseSessions = new Map<string, Session<SSEServerTransport>>();
+  const authenticate = options.auth ? createRequestAuthenticator(options.auth) : null;
+  const sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+
+  // Look up a session for a request; sessions of other callers are reported as not found, so their IDs can't be probed
+  const getSession = <T>(sessions: Map<string, Session<T>>, sessionId: string | undefined, principal: string): Session<T> | undefined => {
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || session.principal !== principal) {
+      return undefined;
+    }
+    session.lastActivity = Date.now();
+    return session;
+  };
+
+  const hasSessionCapacity = (res: ServerResponse): boolean => {
+    if (streamableSessions.size + sseSessions.size < maxSessions) {
+      return true;
+    }
+    sendJsonRpcError(res, 503, 'Too many open sessions, try again later');
+    return false;
+  };
+
+  const handleStreamableRequest = async (req: IncomingMessage, res: ServerResponse, principal: string) => {
+    const sessionIdHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    let transport = getSession(streamableSessions, sessionId, principal)?.transport;
+
+    if (!transport) {
+      if (sessionId || req.method !== 'POST' || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? 'Session not found' : 'No valid session ID provided');
+        return;
+      }
+      if (!hasSessionCapacity(res)) {
+        return;
+      }
+
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          streamableSessions.set(id, { transport: newTransport, principal, lastActivity: Date.now() });
+        },
+      });
+      newTransport.onclose = () => {
+        if (newTransport.sessionId) {
+          streamableSessions.delete(newTransport.sessionId);
+        }
+      };
+
+      await createServer().connect(newTransport);
+      transport = newTransport;
+    }
+
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseConnection = async (res: ServerResponse, principal: string) => {
+    if (!hasSessionCapacity(res)) {
+      return;
+    }
+
+    const transport = new SSEServerTransport('/messages', res);
+    sseSessions.set(transport.sessionId, { transport, principal, lastActivity: Date.now() });
+    res.on('close', () => {
+      sseSessions.delete(transport.sessionId);
+    });
+
+    await createServer().connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL, principal: string) => {
+    const transport = getSession(sseSessions, url.searchParams.get('sessionId') || undefined, principal)?.transport;
+    if (!transport) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    try {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, {
+          status: 'ok',
+          sessions: streamableSessions.size + sseSessions.size,
+        });
+        return;
+      }
+
+      const principal = authenticate ? await authenticate(req) : ANONYMOUS_PRINCIPAL;
+      if (!principal) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJsonRpcError(res, 401, 'Unauthorized');
+        return;
+      }
+
+      if (url.pathname === '/mcp') {
+        await handleStreamableRequest(req, res, principal);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseConnection(res, principal);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url, principal);
+      } else {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+    } catch (error: any) {
+      console.error('Error handling HTTP request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, error instanceof RequestBodyError ? 400 : 500, error instanceof RequestBodyError ? error.message : 'Internal server error');
+      }
+    }
+  });
+
+  // SSE sessions end with their connection; streamable HTTP sessions only end on DELETE, so idle ones are closed here
+  const idleSweep = setInterval(() => {
+    const idleSince = Date.now() - sessionIdleTimeoutMs;
+    for (const [sessionId, session] of streamableSessions) {
+      if (session.lastActivity < idleSince) {
+        console.error(`Closing streamable HTTP session ${sessionId} after being idle`);
+        streamableSessions.delete(sessionId);
+        session.transport.close().catch(error => console.error(`Error closing session ${sessionId}:`, error));
+      }
+    }
+  }, Math.min(sessionIdleTimeoutMs, 60 * 1000));
+  idleSweep.unref();
+  httpServer.on('close', () => clearInterval(idleSweep));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  return httpServer;
+}
+
+// Error for request bodies that are too large or not valid JSON
+class RequestBodyError extends Error {}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestBodyError('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new RequestBodyError('Request body is not valid JSON');
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  });
+}
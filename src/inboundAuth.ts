@@ -0,0 +1,95 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { IncomingMessage } from 'http';
+import { createRemoteJWKSet, jwtVerify, JWTVerifyGetKey } from 'jose';
+
+// Settings for validating JWT bearer tokens, e.g. issued by Microsoft Entra ID
+export interface JwtValidationOptions {
+  issuer: string;
+  audience: string;
+  jwksUri: string; // URL of the issuer's signing keys (e.g., 'https://login.microsoftonline.com/<tenant>/discovery/v2.0/keys')
+}
+
+// How callers of the hosted server must authenticate
+export interface InboundAuthOptions {
+  apiKeys: string[]; // Accepted API keys, sent as 'Authorization: Bearer <key>' or 'X-API-Key: <key>'
+  jwt?: JwtValidationOptions;
+}
+
+/**
+ * Read the inbound authentication settings from environment variables
+ * @returns The settings, or null if neither API keys nor JWT validation are configured
+ */
+export function loadInboundAuthOptions(): InboundAuthOptions | null {
+  const apiKeys = (process.env.MCP_API_KEYS || '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(key => key.length > 0);
+
+  const issuer = process.env.MCP_JWT_ISSUER;
+  const audience = process.env.MCP_JWT_AUDIENCE;
+  const jwksUri = process.env.MCP_JWT_JWKS_URI;
+
+  const jwtSettings = [issuer, audience, jwksUri].filter(Boolean).length;
+  if (jwtSettings > 0 && jwtSettings < 3) {
+    throw new Error('JWT validation requires MCP_JWT_ISSUER, MCP_JWT_AUDIENCE and MCP_JWT_JWKS_URI to all be set');
+  }
+
+  const jwt = issuer && audience && jwksUri ? { issuer, audience, jwksUri } : undefined;
+  if (apiKeys.length === 0 && !jwt) {
+    return null;
+  }
+
+  return { apiKeys, jwt };
+}
+
+/**
+ * Create a function that checks whether an HTTP request carries a valid API key or JWT
+ * @param options The inbound authentication settings
+ * @returns A function resolving to the authenticated principal ('api-key:<index>' or 'jwt:<issuer>:<subject>'), or null
+ */
+export function createRequestAuthenticator(options: InboundAuthOptions): (req: IncomingMessage) => Promise<string | null> {
+  const apiKeyDigests = options.apiKeys.map(digest);
+  const jwks: JWTVerifyGetKey | undefined = options.jwt ? createRemoteJWKSet(new URL(options.jwt.jwksUri)) : undefined;
+
+  return async (req: IncomingMessage): Promise<string | null> => {
+    const credential = getCredential(req);
+    if (!credential) {
+      return null;
+    }
+
+    // Compare digests in constant time so response timing doesn't leak the keys
+    const credentialDigest = digest(credential);
+    const keyIndex = apiKeyDigests.findIndex(keyDigest => timingSafeEqual(keyDigest, credentialDigest));
+    if (keyIndex >= 0) {
+      return `api-key:${keyIndex}`;
+    }
+
+    if (options.jwt && jwks && credential.split('.').length === 3) {
+      try {
+        const { payload } = await jwtVerify(credential, jwks, {
+          issuer: options.jwt.issuer,
+          audience: options.jwt.audience,
+        });
+        return `jwt:${payload.iss}:${payload.sub}`;
+      } catch (error: any) {
+        console.error(`Rejected bearer token: ${error.message}`);
+      }
+    }
+
+    return null;
+  };
+}
+
+function getCredential(req: IncomingMessage): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  const apiKey = req.headers['x-api-key'];
+  return Array.isArray(apiKey) ? apiKey[0] : apiKey;
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
@@ -1,48 +1,144 @@
 #!/usr/bin/env node
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
-import { PowerPlatformService, PowerPlatformConfig } from "./PowerPlatformService.js";
+import { AttributeDetails, EntitySummary, PowerPlatformService } from "./PowerPlatformService.js";
+import { PowerPlatformApiError } from "./PowerPlatformApiError.js";
+import { getMissingCredentialOptions } from "./credentials.js";
+import { EnvironmentsConfig, loadEnvironmentsConfig } from "./environments.js";
+import { startHttpServer } from "./httpServer.js";
+import { loadInboundAuthOptions } from "./inboundAuth.js";
+import { readSolutionPackage, saveSolutionPackage } from "./solutionPackage.js";
+import { FileAccessOptions, loadFileAccessOptions, resolveToolPath } from "./fileAccess.js";
+import { buildRelationshipGraph, findRelationshipPaths } from "./relationshipGraph.js";
+import { exportSchema, SCHEMA_EXPORT_FORMATS, SchemaExportFormat } from "./schemaExport.js";
+import { compareEntitySchemas, EntitySchemaSnapshot, readEntitySchemaSnapshot, writeEntitySchemaSnapshot } from "./schemaDiff.js";
 
 // Environment configuration
-// These values can be set in environment variables or loaded from a configuration file
-const POWERPLATFORM_CONFIG: PowerPlatformConfig = {
-  organizationUrl: process.env.POWERPLATFORM_URL || "",
-  clientId: process.env.POWERPLATFORM_CLIENT_ID || "",
-  clientSecret: process.env.POWERPLATFORM_CLIENT_SECRET || "",
-  tenantId: process.env.POWERPLATFORM_TENANT_ID || "",
-};
-
-// Create server instance
-const server = new McpServer({
-  name: "powerplatform-mcp",
-  version: "1.0.0",
-});
+// Environments are loaded in main() from the file named by POWERPLATFORM_CONFIG_FILE, or from environment variables
+let ENVIRONMENTS_CONFIG: EnvironmentsConfig;
 
-let powerPlatformService: PowerPlatformService | null = null;
+// PowerPlatformService instances by environment name, created on first use
+const powerPlatformServices = new Map<string, PowerPlatformService>();
 
-// Function to initialize PowerPlatformService on demand
-function getPowerPlatformService(): PowerPlatformService {
+// Function to initialize PowerPlatformService for an environment on demand
+function getPowerPlatformService(environment?: string): PowerPlatformService {
+  const environmentName = environment || ENVIRONMENTS_CONFIG.defaultEnvironment;
+  let powerPlatformService = powerPlatformServices.get(environmentName);
+  
   if (!powerPlatformService) {
+    const config = ENVIRONMENTS_CONFIG.environments[environmentName];
+    if (!config) {
+      throw new Error(`Unknown environment '${environmentName}'. Available environments: ${Object.keys(ENVIRONMENTS_CONFIG.environments).join(", ")}`);
+    }
+    
     // Check if configuration is complete
     const missingConfig: string[] = [];
-    if (!POWERPLATFORM_CONFIG.organizationUrl) missingConfig.push("organizationUrl");
-    if (!POWERPLATFORM_CONFIG.clientId) missingConfig.push("clientId");
-    if (!POWERPLATFORM_CONFIG.clientSecret) missingConfig.push("clientSecret");
-    if (!POWERPLATFORM_CONFIG.tenantId) missingConfig.push("tenantId");
+    if (!config.organizationUrl) missingConfig.push("organizationUrl");
+    missingConfig.push(...getMissingCredentialOptions(config));
     
     if (missingConfig.length > 0) {
-      throw new Error(`Missing PowerPlatform configuration: ${missingConfig.join(", ")}. Set these in environment variables.`);
+      throw new Error(`Missing PowerPlatform configuration for environment '${environmentName}': ${missingConfig.join(", ")}. Set these in environment variables or the config file.`);
     }
     
     // Initialize service
-    powerPlatformService = new PowerPlatformService(POWERPLATFORM_CONFIG);
-    console.error("PowerPlatform service initialized");
+    powerPlatformService = new PowerPlatformService(config);
+    powerPlatformServices.set(environmentName, powerPlatformService);
+    console.error(`PowerPlatform service initialized for environment '${environmentName}'`);
   }
   
   return powerPlatformService;
 }
 
+// Build a tool result for a failed call, with the Dataverse error details and hints the model can act on
+async function createToolErrorResult(message: string, error: any, environment?: string) {
+  let text = `${message}: ${error.message}`;
+  
+  if (error instanceof PowerPlatformApiError) {
+    text += `\n\nRequest: ${error.method} ${error.url}`;
+    
+    try {
+      const hints = await getPowerPlatformService(environment).getErrorHints(error);
+      if (hints.length > 0) {
+        text += `\n\nHints:\n${hints.map(hint => `- ${hint}`).join('\n')}`;
+      }
+    } catch (hintError) {
+      console.error("Error collecting error hints:", hintError);
+    }
+  }
+  
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text,
+      },
+    ],
+    isError: true,
+  };
+}
+
+// Build a resource result holding a JSON document
+function createJsonResourceResult(uri: URL, value: any) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
+
+// Shape an entity summary for tool output, leaving out internal IDs
+function formatEntitySummary(entity: EntitySummary) {
+  return {
+    logicalName: entity.logicalName,
+    entitySetName: entity.entitySetName,
+    displayName: entity.displayName,
+    isCustom: entity.isCustom,
+    isActivity: entity.isActivity,
+  };
+}
+
+// Format an attribute as a one-line summary (e.g., "- name: String (Account Name), required")
+function formatAttributeSummary(attr: AttributeDetails): string {
+  const required = attr.requiredLevel === "ApplicationRequired" || attr.requiredLevel === "SystemRequired" ? ", required" : "";
+  const targets = attr.targets?.length ? ` → ${attr.targets.join(", ")}` : "";
+  return `- ${attr.logicalName}: ${attr.attributeType}${targets} (${attr.displayName})${required}`;
+}
+
+// Load an entity schema from a snapshot file, or from an environment when no file is given
+async function loadEntitySchema(entityName: string, environment?: string, snapshotPath?: string): Promise<{ schema: EntitySchemaSnapshot, label: string }> {
+  if (snapshotPath) {
+    const schema = await readEntitySchemaSnapshot(snapshotPath);
+    if (schema.entityName !== entityName) {
+      throw new Error(`Schema snapshot '${snapshotPath}' is for entity '${schema.entityName}', not '${entityName}'`);
+    }
+    return { schema, label: `snapshot '${snapshotPath}'` };
+  }
+
+  const environmentName = environment || ENVIRONMENTS_CONFIG.defaultEnvironment;
+  const schema = await getPowerPlatformService(environmentName).getEntitySchemaSnapshot(entityName);
+  return { schema, label: `environment '${environmentName}'` };
+}
+
+// Values of the workflow categories accepted by list-workflows
+const WORKFLOW_CATEGORY_VALUES = {
+  "workflow": 0,
+  "dialog": 1,
+  "business-rule": 2,
+  "action": 3,
+  "business-process-flow": 4,
+  "cloud-flow": 5,
+  "desktop-flow": 6,
+};
+type WorkflowCategory = keyof typeof WORKFLOW_CATEGORY_VALUES;
+
+// Optional environment argument shared by all tools and prompts
+const environmentSchema = z.string().optional().describe("The name of the environment to use (see list-environments). Defaults to the default environment");
+
 // Pre-defined PowerPlatform Prompts
 const powerPlatformPrompts = {
   // Entity exploration prompts
@@ -83,719 +179,2141 @@ const powerPlatformPrompts = {
     `### Many-to-Many Relationships\n{{many_to_many}}\n\n`
 };
 
-// Register prompts with the server using the correct method signature
-// Entity Overview Prompt
-server.prompt(
-  "entity-overview", 
-  "Get an overview of a Power Platform entity",
-  {
-    entityName: z.string().describe("The logical name of the entity")
-  },
-  async (args) => {
-    try {
-      const service = getPowerPlatformService();
-      const entityName = args.entityName;
-      
-      // Get entity metadata and key attributes
-      const [metadata, attributes] = await Promise.all([
-        service.getEntityMetadata(entityName),
-        service.getEntityAttributes(entityName)
-      ]);
-      
-      // Format entity details
-      const entityDetails = `- Display Name: ${metadata.DisplayName?.UserLocalizedLabel?.Label || entityName}\n` +
-        `- Schema Name: ${metadata.SchemaName}\n` +
-        `- Description: ${metadata.Description?.UserLocalizedLabel?.Label || 'No description'}\n` +
-        `- Primary Key: ${metadata.PrimaryIdAttribute}\n` +
-        `- Primary Name: ${metadata.PrimaryNameAttribute}`;
-        
-      // Get key attributes
-      const keyAttributes = attributes.value
-        .map((attr: any) => {
-          const attrType = attr["@odata.type"] || attr.odata?.type || "Unknown type";
-          return `- ${attr.LogicalName}: ${attrType}`;
-        })
-        .join('\n');
-        
-      // Get relationships summary
-      const relationships = await service.getEntityRelationships(entityName);
-      const oneToManyCount = relationships.oneToMany.value.length;
-      const manyToManyCount = relationships.manyToMany.value.length;
-      
-      const relationshipsSummary = `- One-to-Many Relationships: ${oneToManyCount}\n` +
-                                  `- Many-to-Many Relationships: ${manyToManyCount}`;
-      
-      let promptContent = powerPlatformPrompts.ENTITY_OVERVIEW(entityName);
-      promptContent = promptContent
-        .replace('{{entity_details}}', entityDetails)
-        .replace('{{key_attributes}}', keyAttributes)
-        .replace('{{relationships}}', relationshipsSummary);
-      
-      return {
-        messages: [
-          {
-            role: "assistant",
-            content: {
-              type: "text",
-              text: promptContent
+// Fill the QUERY_TEMPLATE prompt for an entity; shared by the query-template prompt and the use-powerplatform-prompt tool
+async function buildQueryTemplate(service: PowerPlatformService, entityName: string): Promise<string> {
+  // Get entity metadata to determine plural name
+  const metadata = await service.getEntityMetadata(entityName);
+
+  // Get a few readable fields for the select example
+  const attributes = await service.getEntityAttributes(entityName);
+  const selectFields = attributes.value
+    .filter((attr: any) => attr.IsValidForRead === true && !attr.AttributeOf)
+    .slice(0, 5) // Just take first 5 for example
+    .map((attr: any) => attr.LogicalName)
+    .join(',');
+
+  return powerPlatformPrompts.QUERY_TEMPLATE(metadata.EntitySetName)
+    .replace('{{selected_fields}}', selectFields)
+    .replace('{{filter_conditions}}', `${metadata.PrimaryNameAttribute} eq 'Example'`)
+    .replace('{{order_by}}', `${metadata.PrimaryNameAttribute} asc`)
+    .replace('{{max_records}}', '50');
+}
+
+// Create a server instance with all PowerPlatform prompts, resources and tools registered
+// fileAccess controls which paths the tools that read and write files may use
+function createServer(fileAccess: FileAccessOptions): McpServer {
+  const server = new McpServer({
+    name: "powerplatform-mcp",
+    version: "1.0.0",
+  });
+
+  // Register prompts with the server using the correct method signature
+  // Entity Overview Prompt
+  server.prompt(
+    "entity-overview", 
+    "Get an overview of a Power Platform entity",
+    {
+      entityName: z.string().describe("The logical name of the entity"),
+      environment: environmentSchema,
+    },
+    async (args) => {
+      try {
+        const service = getPowerPlatformService(args.environment);
+        const entityName = args.entityName;
+
+        // Get entity metadata and key attributes
+        const [metadata, attributes] = await Promise.all([
+          service.getEntityMetadata(entityName),
+          service.getEntityAttributeDetails(entityName)
+        ]);
+
+        // Format entity details
+        const entityDetails = `- Display Name: ${metadata.DisplayName?.UserLocalizedLabel?.Label || entityName}\n` +
+          `- Schema Name: ${metadata.SchemaName}\n` +
+          `- Description: ${metadata.Description?.UserLocalizedLabel?.Label || 'No description'}\n` +
+          `- Primary Key: ${metadata.PrimaryIdAttribute}\n` +
+          `- Primary Name: ${metadata.PrimaryNameAttribute}`;
+
+        // Get key attributes
+        const keyAttributes = attributes
+          .map(formatAttributeSummary)
+          .join('\n');
+
+        // Get relationships summary
+        const relationships = await service.getEntityRelationships(entityName);
+        const oneToManyCount = relationships.oneToMany.value.length;
+        const manyToManyCount = relationships.manyToMany.value.length;
+
+        const relationshipsSummary = `- One-to-Many Relationships: ${oneToManyCount}\n` +
+                                    `- Many-to-Many Relationships: ${manyToManyCount}`;
+
+        let promptContent = powerPlatformPrompts.ENTITY_OVERVIEW(entityName);
+        promptContent = promptContent
+          .replace('{{entity_details}}', entityDetails)
+          .replace('{{key_attributes}}', keyAttributes)
+          .replace('{{relationships}}', relationshipsSummary);
+
+        return {
+          messages: [
+            {
+              role: "assistant",
+              content: {
+                type: "text",
+                text: promptContent
+              }
             }
-          }
-        ]
-      };
-    } catch (error: any) {
-      console.error(`Error handling entity-overview prompt:`, error);
-      return {
-        messages: [
-          {
-            role: "assistant",
-            content: {
-              type: "text",
-              text: `Error: ${error.message}`
+          ]
+        };
+      } catch (error: any) {
+        console.error(`Error handling entity-overview prompt:`, error);
+        return {
+          messages: [
+            {
+              role: "assistant",
+              content: {
+                type: "text",
+                text: `Error: ${error.message}`
+              }
             }
-          }
-        ]
-      };
+          ]
+        };
+      }
     }
-  }
-);
-
-// Attribute Details Prompt
-server.prompt(
-  "attribute-details",
-  "Get detailed information about a specific entity attribute/field",
-  {
-    entityName: z.string().describe("The logical name of the entity"),
-    attributeName: z.string().describe("The logical name of the attribute"),
-  },
-  async (args) => {
-    try {
-      const service = getPowerPlatformService();
-      const { entityName, attributeName } = args;
-      
-      // Get attribute details
-      const attribute = await service.getEntityAttribute(entityName, attributeName);
-      
-      // Format attribute details
-      const attrDetails = `- Display Name: ${attribute.DisplayName?.UserLocalizedLabel?.Label || attributeName}\n` +
-        `- Description: ${attribute.Description?.UserLocalizedLabel?.Label || 'No description'}\n` +
-        `- Type: ${attribute.AttributeType}\n` +
-        `- Format: ${attribute.Format || 'N/A'}\n` +
-        `- Is Required: ${attribute.RequiredLevel?.Value || 'No'}\n` +
-        `- Is Searchable: ${attribute.IsValidForAdvancedFind || false}`;
-        
-      let promptContent = powerPlatformPrompts.ATTRIBUTE_DETAILS(entityName, attributeName);
-      promptContent = promptContent
-        .replace('{{attribute_details}}', attrDetails)
-        .replace('{{data_type}}', attribute.AttributeType)
-        .replace('{{required}}', attribute.RequiredLevel?.Value || 'No')
-        .replace('{{max_length}}', attribute.MaxLength || 'N/A');
-      
-      return {
-        messages: [
-          {
-            role: "assistant",
-            content: {
-              type: "text",
-              text: promptContent
+  );
+
+  // Attribute Details Prompt
+  server.prompt(
+    "attribute-details",
+    "Get detailed information about a specific entity attribute/field",
+    {
+      entityName: z.string().describe("The logical name of the entity"),
+      attributeName: z.string().describe("The logical name of the attribute"),
+      environment: environmentSchema,
+    },
+    async (args) => {
+      try {
+        const service = getPowerPlatformService(args.environment);
+        const { entityName, attributeName } = args;
+
+        // Get attribute details
+        const attribute = await service.getEntityAttribute(entityName, attributeName);
+
+        // Format attribute details
+        const attrDetails = `- Display Name: ${attribute.DisplayName?.UserLocalizedLabel?.Label || attributeName}\n` +
+          `- Description: ${attribute.Description?.UserLocalizedLabel?.Label || 'No description'}\n` +
+          `- Type: ${attribute.AttributeType}\n` +
+          `- Format: ${attribute.Format || 'N/A'}\n` +
+          `- Is Required: ${attribute.RequiredLevel?.Value || 'No'}\n` +
+          `- Is Searchable: ${attribute.IsValidForAdvancedFind || false}`;
+
+        let promptContent = powerPlatformPrompts.ATTRIBUTE_DETAILS(entityName, attributeName);
+        promptContent = promptContent
+          .replace('{{attribute_details}}', attrDetails)
+          .replace('{{data_type}}', attribute.AttributeType)
+          .replace('{{required}}', attribute.RequiredLevel?.Value || 'No')
+          .replace('{{max_length}}', attribute.MaxLength || 'N/A');
+
+        return {
+          messages: [
+            {
+              role: "assistant",
+              content: {
+                type: "text",
+                text: promptContent
+              }
             }
-          }
-        ]
-      };
-    } catch (error: any) {
-      console.error(`Error handling attribute-details prompt:`, error);
-      return {
-        messages: [
-          {
-            role: "assistant",
-            content: {
-              type: "text",
-              text: `Error: ${error.message}`
+          ]
+        };
+      } catch (error: any) {
+        console.error(`Error handling attribute-details prompt:`, error);
+        return {
+          messages: [
+            {
+              role: "assistant",
+              content: {
+                type: "text",
+                text: `Error: ${error.message}`
+              }
             }
-          }
-        ]
-      };
+          ]
+        };
+      }
     }
-  }
-);
-
-// Query Template Prompt
-server.prompt(
-  "query-template",
-  "Get a template for querying a Power Platform entity",
-  {
-    entityName: z.string().describe("The logical name of the entity"),
-  },
-  async (args) => {
-    try {
-      const service = getPowerPlatformService();
-      const entityName = args.entityName;
-      
-      // Get entity metadata to determine plural name
-      const metadata = await service.getEntityMetadata(entityName);
-      const entityNamePlural = metadata.EntitySetName;
-      
-      // Get a few important fields for the select example
-      const attributes = await service.getEntityAttributes(entityName);
-      const selectFields = attributes.value
-        .filter((attr: any) => attr.IsValidForRead === true && !attr.AttributeOf)
-        .slice(0, 5) // Just take first 5 for example
-        .map((attr: any) => attr.LogicalName)
-        .join(',');
-        
-      let promptContent = powerPlatformPrompts.QUERY_TEMPLATE(entityNamePlural);
-      promptContent = promptContent
-        .replace('{{selected_fields}}', selectFields)
-        .replace('{{filter_conditions}}', `${metadata.PrimaryNameAttribute} eq 'Example'`)
-        .replace('{{order_by}}', `${metadata.PrimaryNameAttribute} asc`)
-        .replace('{{max_records}}', '50');
-      
-      return {
-        messages: [
-          {
-            role: "assistant",
-            content: {
-              type: "text",
-              text: promptContent
+  );
+
+  // Query Template Prompt
+  server.prompt(
+    "query-template",
+    "Get a template for querying a Power Platform entity",
+    {
+      entityName: z.string().describe("The logical name of the entity"),
+      environment: environmentSchema,
+    },
+    async (args) => {
+      try {
+        const service = getPowerPlatformService(args.environment);
+        const promptContent = await buildQueryTemplate(service, args.entityName);
+
+        return {
+          messages: [
+            {
+              role: "assistant",
+              content: {
+                type: "text",
+                text: promptContent
+              }
             }
-          }
-        ]
-      };
-    } catch (error: any) {
-      console.error(`Error handling query-template prompt:`, error);
-      return {
-        messages: [
-          {
-            role: "assistant",
-            content: {
-              type: "text",
-              text: `Error: ${error.message}`
+          ]
+        };
+      } catch (error: any) {
+        console.error(`Error handling query-template prompt:`, error);
+        return {
+          messages: [
+            {
+              role: "assistant",
+              content: {
+                type: "text",
+                text: `Error: ${error.message}`
+              }
             }
-          }
-        ]
-      };
+          ]
+        };
+      }
     }
-  }
-);
-
-// Relationship Map Prompt
-server.prompt(
-  "relationship-map",
-  "Get a list of relationships for a Power Platform entity",
-  {
-    entityName: z.string().describe("The logical name of the entity"),
-  },
-  async (args) => {
-    try {
-      const service = getPowerPlatformService();
-      const entityName = args.entityName;
-      
-      // Get relationships
-      const relationships = await service.getEntityRelationships(entityName);
-      
-      // Format one-to-many relationships where this entity is primary
-      const oneToManyPrimary = relationships.oneToMany.value
-        .filter((rel: any) => rel.ReferencingEntity !== entityName)
-        .map((rel: any) => `- ${rel.SchemaName}: ${entityName} (1) → ${rel.ReferencingEntity} (N)`)
-        .join('\n');
-        
-      // Format one-to-many relationships where this entity is related
-      const oneToManyRelated = relationships.oneToMany.value
-        .filter((rel: any) => rel.ReferencingEntity === entityName)
-        .map((rel: any) => `- ${rel.SchemaName}: ${rel.ReferencedEntity} (1) → ${entityName} (N)`)
-        .join('\n');
-        
-      // Format many-to-many relationships
-      const manyToMany = relationships.manyToMany.value
-        .map((rel: any) => {
-          const otherEntity = rel.Entity1LogicalName === entityName ? rel.Entity2LogicalName : rel.Entity1LogicalName;
-          return `- ${rel.SchemaName}: ${entityName} (N) ↔ ${otherEntity} (N)`;
-        })
-        .join('\n');
-      
-      let promptContent = powerPlatformPrompts.RELATIONSHIP_MAP(entityName);
-      promptContent = promptContent
-        .replace('{{one_to_many_primary}}', oneToManyPrimary || 'None found')
-        .replace('{{one_to_many_related}}', oneToManyRelated || 'None found')
-        .replace('{{many_to_many}}', manyToMany || 'None found');
-      
-      return {
-        messages: [
-          {
-            role: "assistant",
-            content: {
-              type: "text",
-              text: promptContent
+  );
+
+  // Relationship Map Prompt
+  server.prompt(
+    "relationship-map",
+    "Get a list of relationships for a Power Platform entity",
+    {
+      entityName: z.string().describe("The logical name of the entity"),
+      environment: environmentSchema,
+    },
+    async (args) => {
+      try {
+        const service = getPowerPlatformService(args.environment);
+        const entityName = args.entityName;
+
+        // Get relationships
+        const relationships = await service.getEntityRelationships(entityName);
+
+        // Format one-to-many relationships where this entity is primary
+        const oneToManyPrimary = relationships.oneToMany.value
+          .filter((rel: any) => rel.ReferencingEntity !== entityName)
+          .map((rel: any) => `- ${rel.SchemaName}: ${entityName} (1) → ${rel.ReferencingEntity} (N)`)
+          .join('\n');
+
+        // Format one-to-many relationships where this entity is related
+        const oneToManyRelated = relationships.oneToMany.value
+          .filter((rel: any) => rel.ReferencingEntity === entityName)
+          .map((rel: any) => `- ${rel.SchemaName}: ${rel.ReferencedEntity} (1) → ${entityName} (N)`)
+          .join('\n');
+
+        // Format many-to-many relationships
+        const manyToMany = relationships.manyToMany.value
+          .map((rel: any) => {
+            const otherEntity = rel.Entity1LogicalName === entityName ? rel.Entity2LogicalName : rel.Entity1LogicalName;
+            return `- ${rel.SchemaName}: ${entityName} (N) ↔ ${otherEntity} (N)`;
+          })
+          .join('\n');
+
+        let promptContent = powerPlatformPrompts.RELATIONSHIP_MAP(entityName);
+        promptContent = promptContent
+          .replace('{{one_to_many_primary}}', oneToManyPrimary || 'None found')
+          .replace('{{one_to_many_related}}', oneToManyRelated || 'None found')
+          .replace('{{many_to_many}}', manyToMany || 'None found');
+
+        return {
+          messages: [
+            {
+              role: "assistant",
+              content: {
+                type: "text",
+                text: promptContent
+              }
             }
-          }
-        ]
-      };
-    } catch (error: any) {
-      console.error(`Error handling relationship-map prompt:`, error);
-      return {
-        messages: [
-          {
-            role: "assistant",
-            content: {
-              type: "text",
-              text: `Error: ${error.message}`
+          ]
+        };
+      } catch (error: any) {
+        console.error(`Error handling relationship-map prompt:`, error);
+        return {
+          messages: [
+            {
+              role: "assistant",
+              content: {
+                type: "text",
+                text: `Error: ${error.message}`
+              }
             }
-          }
-        ]
-      };
+          ]
+        };
+      }
     }
-  }
-);
-
-// PowerPlatform entity metadata
-server.tool(
-  "get-entity-metadata",
-  "Get metadata about a PowerPlatform entity",
-  {
-    entityName: z.string().describe("The logical name of the entity"),
-  },
-  async ({ entityName }) => {
-    try {
-      // Get or initialize PowerPlatformService
+  );
+
+  // Register resources so clients can browse schema and records without tool calls.
+  // Resources always use the default environment.
+  // Entity list resource
+  server.resource(
+    "entities",
+    "dataverse://entities",
+    {
+      description: "All PowerPlatform entities with their logical, entity set and display names",
+      mimeType: "application/json",
+    },
+    async (uri) => {
       const service = getPowerPlatformService();
-      const metadata = await service.getEntityMetadata(entityName);
+      const entities = await service.listEntities();
       
-      // Format the metadata as a string for text display
-      const metadataStr = JSON.stringify(metadata, null, 2);
+      const entitiesList = entities.map(({ logicalName, entitySetName, displayName }) => ({
+        logicalName,
+        entitySetName,
+        displayName,
+      }));
       
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Entity metadata for '${entityName}':\n\n${metadataStr}`,
-          },
-        ],
-      };
-    } catch (error: any) {
-      console.error("Error getting entity metadata:", error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to get entity metadata: ${error.message}`,
-          },
-        ],
-      };
+      return createJsonResourceResult(uri, entitiesList);
     }
-  }
-);
-
-// PowerPlatform entity attributes
-server.tool(
-  "get-entity-attributes",
-  "Get attributes/fields of a PowerPlatform entity",
-  {
-    entityName: z.string().describe("The logical name of the entity"),
-  },
-  async ({ entityName }) => {
-    try {
-      // Get or initialize PowerPlatformService
-      const service = getPowerPlatformService();
-      const attributes = await service.getEntityAttributes(entityName);
-      
-      // Format the attributes as a string for text display
-      const attributesStr = JSON.stringify(attributes, null, 2);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Attributes for entity '${entityName}':\n\n${attributesStr}`,
-          },
-        ],
-      };
-    } catch (error: any) {
-      console.error("Error getting entity attributes:", error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to get entity attributes: ${error.message}`,
-          },
-        ],
-      };
-    }
-  }
-);
-
-// PowerPlatform specific entity attribute
-server.tool(
-  "get-entity-attribute",
-  "Get a specific attribute/field of a PowerPlatform entity",
-  {
-    entityName: z.string().describe("The logical name of the entity"),
-    attributeName: z.string().describe("The logical name of the attribute")
-  },
-  async ({ entityName, attributeName }) => {
-    try {
-      // Get or initialize PowerPlatformService
+  );
+
+  // Entity metadata resource
+  server.resource(
+    "entity",
+    new ResourceTemplate("dataverse://entities/{logicalName}", {
+      list: async () => {
+        const service = getPowerPlatformService();
+        const entities = await service.listEntities();
+        
+        return {
+          resources: entities.map(entity => ({
+            uri: `dataverse://entities/${entity.logicalName}`,
+            name: entity.displayName,
+            description: `Metadata for the '${entity.logicalName}' entity`,
+            mimeType: "application/json",
+          })),
+        };
+      },
+    }),
+    {
+      description: "Metadata about a PowerPlatform entity",
+      mimeType: "application/json",
+    },
+    async (uri, { logicalName }) => {
       const service = getPowerPlatformService();
-      const attribute = await service.getEntityAttribute(entityName, attributeName);
-      
-      // Format the attribute as a string for text display
-      const attributeStr = JSON.stringify(attribute, null, 2);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Attribute '${attributeName}' for entity '${entityName}':\n\n${attributeStr}`,
-          },
-        ],
-      };
-    } catch (error: any) {
-      console.error("Error getting entity attribute:", error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to get entity attribute: ${error.message}`,
-          },
-        ],
-      };
+      const metadata = await service.getEntityMetadata(String(logicalName));
+      return createJsonResourceResult(uri, metadata);
     }
-  }
-);
-
-// PowerPlatform entity relationships
-server.tool(
-  "get-entity-relationships",
-  "Get relationships (one-to-many and many-to-many) for a PowerPlatform entity",
-  {
-    entityName: z.string().describe("The logical name of the entity"),
-  },
-  async ({ entityName }) => {
-    try {
-      // Get or initialize PowerPlatformService
+  );
+
+  // Entity attributes resource
+  server.resource(
+    "entity-attributes",
+    new ResourceTemplate("dataverse://entities/{logicalName}/attributes", { list: undefined }),
+    {
+      description: "Attributes/fields of a PowerPlatform entity",
+      mimeType: "application/json",
+    },
+    async (uri, { logicalName }) => {
       const service = getPowerPlatformService();
-      const relationships = await service.getEntityRelationships(entityName);
-      
-      // Format the relationships as a string for text display
-      const relationshipsStr = JSON.stringify(relationships, null, 2);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Relationships for entity '${entityName}':\n\n${relationshipsStr}`,
-          },
-        ],
-      };
-    } catch (error: any) {
-      console.error("Error getting entity relationships:", error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to get entity relationships: ${error.message}`,
-          },
-        ],
-      };
+      const attributes = await service.getEntityAttributes(String(logicalName));
+      return createJsonResourceResult(uri, attributes);
     }
-  }
-);
-
-// PowerPlatform global option set
-server.tool(
-  "get-global-option-set",
-  "Get a global option set definition by name",
-  {
-    optionSetName: z.string().describe("The name of the global option set"),
-  },
-  async ({ optionSetName }) => {
-    try {
-      // Get or initialize PowerPlatformService
+  );
+
+  // Entity relationships resource
+  server.resource(
+    "entity-relationships",
+    new ResourceTemplate("dataverse://entities/{logicalName}/relationships", { list: undefined }),
+    {
+      description: "Relationships (one-to-many and many-to-many) of a PowerPlatform entity",
+      mimeType: "application/json",
+    },
+    async (uri, { logicalName }) => {
       const service = getPowerPlatformService();
-      const optionSet = await service.getGlobalOptionSet(optionSetName);
-      
-      // Format the option set as a string for text display
-      const optionSetStr = JSON.stringify(optionSet, null, 2);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Global option set '${optionSetName}':\n\n${optionSetStr}`,
-          },
-        ],
-      };
-    } catch (error: any) {
-      console.error("Error getting global option set:", error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to get global option set: ${error.message}`,
-          },
-        ],
-      };
+      const relationships = await service.getEntityRelationships(String(logicalName));
+      return createJsonResourceResult(uri, relationships);
     }
-  }
-);
-
-// PowerPlatform record by ID
-server.tool(
-  "get-record",
-  "Get a specific record by entity name (plural) and ID",
-  {
-    entityNamePlural: z.string().describe("The plural name of the entity (e.g., 'accounts', 'contacts')"),
-    recordId: z.string().describe("The GUID of the record"),
-  },
-  async ({ entityNamePlural, recordId }) => {
-    try {
-      // Get or initialize PowerPlatformService
+  );
+
+  // Record resource
+  server.resource(
+    "record",
+    new ResourceTemplate("dataverse://records/{entitySet}/{id}", { list: undefined }),
+    {
+      description: "A PowerPlatform record by entity set (plural) name and ID",
+      mimeType: "application/json",
+    },
+    async (uri, { entitySet, id }) => {
       const service = getPowerPlatformService();
-      const record = await service.getRecord(entityNamePlural, recordId);
-      
-      // Format the record as a string for text display
-      const recordStr = JSON.stringify(record, null, 2);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Record from '${entityNamePlural}' with ID '${recordId}':\n\n${recordStr}`,
-          },
-        ],
-      };
-    } catch (error: any) {
-      console.error("Error getting record:", error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to get record: ${error.message}`,
-          },
-        ],
-      };
+      const record = await service.getRecord(String(entitySet), String(id));
+      return createJsonResourceResult(uri, record);
     }
-  }
-);
-
-// PowerPlatform query records with filter
-server.tool(
-  "query-records",
-  "Query records using an OData filter expression",
-  {
-    entityNamePlural: z.string().describe("The plural name of the entity (e.g., 'accounts', 'contacts')"),
-    filter: z.string().describe("OData filter expression (e.g., \"name eq 'test'\" or \"createdon gt 2023-01-01\")"),
-    maxRecords: z.number().optional().describe("Maximum number of records to retrieve (default: 50)"),
-  },
-  async ({ entityNamePlural, filter, maxRecords }) => {
-    try {
-      // Get or initialize PowerPlatformService
-      const service = getPowerPlatformService();
-      const records = await service.queryRecords(entityNamePlural, filter, maxRecords || 50);
-      
-      // Format the records as a string for text display
-      const recordsStr = JSON.stringify(records, null, 2);
-      const recordCount = records.value?.length || 0;
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Retrieved ${recordCount} records from '${entityNamePlural}' with filter '${filter}':\n\n${recordsStr}`,
-          },
-        ],
-      };
-    } catch (error: any) {
-      console.error("Error querying records:", error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to query records: ${error.message}`,
-          },
-        ],
-      };
+  );
+
+  // PowerPlatform environments
+  server.tool(
+    "list-environments",
+    "List the PowerPlatform environments this server can connect to",
+    {},
+    async () => {
+      try {
+        const environments = Object.entries(ENVIRONMENTS_CONFIG.environments).map(([name, config]) => ({
+          name,
+          organizationUrl: config.organizationUrl,
+          authMethod: config.authMethod || "client-secret",
+          writeEnabled: config.enableWrite === true,
+          isDefault: name === ENVIRONMENTS_CONFIG.defaultEnvironment,
+        }));
+
+        // Format the environments as a string for text display
+        const environmentsStr = JSON.stringify(environments, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Available environments:\n\n${environmentsStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error listing environments:", error);
+        return createToolErrorResult("Failed to list environments", error);
+      }
     }
-  }
-);
-
-// PowerPlatform MCP Prompts
-server.tool(
-  "use-powerplatform-prompt",
-  "Use a predefined prompt template for PowerPlatform entities",
-  {
-    promptType: z.enum([
-      "ENTITY_OVERVIEW", 
-      "ATTRIBUTE_DETAILS", 
-      "QUERY_TEMPLATE", 
-      "RELATIONSHIP_MAP"
-    ]).describe("The type of prompt template to use"),
-    entityName: z.string().describe("The logical name of the entity"),
-    attributeName: z.string().optional().describe("The logical name of the attribute (required for ATTRIBUTE_DETAILS prompt)"),
-  },
-  async ({ promptType, entityName, attributeName }) => {
-    try {
-      // Get or initialize PowerPlatformService
-      const service = getPowerPlatformService();
-      
-      let promptContent = "";
-      let replacements: Record<string, string> = {};
-      
-      switch (promptType) {
-        case "ENTITY_OVERVIEW": {
-          // Get entity metadata and key attributes
-          const [metadata, attributes] = await Promise.all([
-            service.getEntityMetadata(entityName),
-            service.getEntityAttributes(entityName)
-          ]);
-          
-          // Format entity details
-          const entityDetails = `- Display Name: ${metadata.DisplayName?.UserLocalizedLabel?.Label || entityName}\n` +
-            `- Schema Name: ${metadata.SchemaName}\n` +
-            `- Description: ${metadata.Description?.UserLocalizedLabel?.Label || 'No description'}\n` +
-            `- Primary Key: ${metadata.PrimaryIdAttribute}\n` +
-            `- Primary Name: ${metadata.PrimaryNameAttribute}`;
-            
-          // Get key attributes
-          const keyAttributes = attributes.value
-            //.slice(0, 10) // Limit to first 10 important attributes
-            .map((attr: any) => {
-                const attrType = attr["@odata.type"] || attr.odata?.type || "Unknown type";
-                return `- ${attr.LogicalName}: ${attrType}`;
-              })
-            .join('\n');
-            
-          // Get relationships summary
-          const relationships = await service.getEntityRelationships(entityName);
-          const oneToManyCount = relationships.oneToMany.value.length;
-          const manyToManyCount = relationships.manyToMany.value.length;
-          
-          const relationshipsSummary = `- One-to-Many Relationships: ${oneToManyCount}\n` +
-                                      `- Many-to-Many Relationships: ${manyToManyCount}`;
-          
-          promptContent = powerPlatformPrompts.ENTITY_OVERVIEW(entityName);
-          replacements = {
-            '{{entity_details}}': entityDetails,
-            '{{key_attributes}}': keyAttributes,
-            '{{relationships}}': relationshipsSummary
-          };
-          break;
-        }
+  );
+
+  // PowerPlatform entity list
+  server.tool(
+    "list-entities",
+    "List PowerPlatform entities (tables) with their logical, entity set (plural) and display names",
+    {
+      isCustom: z.boolean().optional().describe("Only custom entities (true) or only system entities (false)"),
+      isActivity: z.boolean().optional().describe("Only activity entities (true) or only non-activity entities (false)"),
+      solutionUniqueName: z.string().optional().describe("Only entities that are part of this solution (unique name)"),
+      maxResults: z.number().optional().describe("Maximum number of entities to return"),
+      environment: environmentSchema,
+    },
+    async ({ isCustom, isActivity, solutionUniqueName, maxResults, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const entities = await service.listEntities({ isCustom, isActivity, solutionUniqueName, maxResults });
         
-        case "ATTRIBUTE_DETAILS": {
-          if (!attributeName) {
-            throw new Error("attributeName is required for ATTRIBUTE_DETAILS prompt");
-          }
-          
-          // Get attribute details
-          const attribute = await service.getEntityAttribute(entityName, attributeName);
-          
-          // Format attribute details
-          const attrDetails = `- Display Name: ${attribute.DisplayName?.UserLocalizedLabel?.Label || attributeName}\n` +
-            `- Description: ${attribute.Description?.UserLocalizedLabel?.Label || 'No description'}\n` +
-            `- Type: ${attribute.AttributeType}\n` +
-            `- Format: ${attribute.Format || 'N/A'}\n` +
-            `- Is Required: ${attribute.RequiredLevel?.Value || 'No'}\n` +
-            `- Is Searchable: ${attribute.IsValidForAdvancedFind || false}`;
-            
-          promptContent = powerPlatformPrompts.ATTRIBUTE_DETAILS(entityName, attributeName);
-          replacements = {
-            '{{attribute_details}}': attrDetails,
-            '{{data_type}}': attribute.AttributeType,
-            '{{required}}': attribute.RequiredLevel?.Value || 'No',
-            '{{max_length}}': attribute.MaxLength || 'N/A'
-          };
-          break;
-        }
+        // Format the entities as a string for text display
+        const entitiesStr = JSON.stringify(entities.map(formatEntitySummary), null, 2);
         
-        case "QUERY_TEMPLATE": {
-          // Get entity metadata to determine plural name
-          const metadata = await service.getEntityMetadata(entityName);
-          const entityNamePlural = metadata.EntitySetName;
-          
-          // Get a few important fields for the select example
-          const attributes = await service.getEntityAttributes(entityName);
-          const selectFields = attributes.value
-            .slice(0, 5) // Just take first 5 for example
-            .map((attr: any) => attr.LogicalName)
-            .join(',');
-            
-          promptContent = powerPlatformPrompts.QUERY_TEMPLATE(entityNamePlural);
-          replacements = {
-            '{{selected_fields}}': selectFields,
-            '{{filter_conditions}}': `${metadata.PrimaryNameAttribute} eq 'Example'`,
-            '{{order_by}}': `${metadata.PrimaryNameAttribute} asc`,
-            '{{max_records}}': '50'
-          };
-          break;
-        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${entities.length} entities:\n\n${entitiesStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error listing entities:", error);
+        return createToolErrorResult("Failed to list entities", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform entity search
+  server.tool(
+    "search-entities",
+    "Search PowerPlatform entities (tables) by logical, entity set or display name. Tolerates partial names and small misspellings",
+    {
+      search: z.string().describe("The text to search for (e.g., 'opportunity' or 'Sales Order')"),
+      isCustom: z.boolean().optional().describe("Only custom entities (true) or only system entities (false)"),
+      isActivity: z.boolean().optional().describe("Only activity entities (true) or only non-activity entities (false)"),
+      solutionUniqueName: z.string().optional().describe("Only entities that are part of this solution (unique name)"),
+      maxResults: z.number().optional().describe("Maximum number of entities to return (default: 20)"),
+      environment: environmentSchema,
+    },
+    async ({ search, isCustom, isActivity, solutionUniqueName, maxResults, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const entities = await service.listEntities({ search, isCustom, isActivity, solutionUniqueName, maxResults: maxResults || 20 });
+        
+        // Format the entities as a string for text display
+        const entitiesStr = JSON.stringify(entities.map(formatEntitySummary), null, 2);
         
-        case "RELATIONSHIP_MAP": {
-          // Get relationships
-          const relationships = await service.getEntityRelationships(entityName);
-          
-          // Format one-to-many relationships where this entity is primary
-          const oneToManyPrimary = relationships.oneToMany.value
-            .filter((rel: any) => rel.ReferencingEntity !== entityName)
-            //.slice(0, 10) // Limit to 10 for readability
-            .map((rel: any) => `- ${rel.SchemaName}: ${entityName} (1) → ${rel.ReferencingEntity} (N)`)
-            .join('\n');
-            
-          // Format one-to-many relationships where this entity is related
-          const oneToManyRelated = relationships.oneToMany.value
-            .filter((rel: any) => rel.ReferencingEntity === entityName)
-            //.slice(0, 10) // Limit to 10 for readability
-            .map((rel: any) => `- ${rel.SchemaName}: ${rel.ReferencedEntity} (1) → ${entityName} (N)`)
-            .join('\n');
-            
-          // Format many-to-many relationships
-          const manyToMany = relationships.manyToMany.value
-            //.slice(0, 10) // Limit to 10 for readability
-            .map((rel: any) => {
-              const otherEntity = rel.Entity1LogicalName === entityName ? rel.Entity2LogicalName : rel.Entity1LogicalName;
-              return `- ${rel.SchemaName}: ${entityName} (N) ↔ ${otherEntity} (N)`;
-            })
-            .join('\n');
-          
-          promptContent = powerPlatformPrompts.RELATIONSHIP_MAP(entityName);
-          replacements = {
-            '{{one_to_many_primary}}': oneToManyPrimary || 'None found',
-            '{{one_to_many_related}}': oneToManyRelated || 'None found',
-            '{{many_to_many}}': manyToMany || 'None found'
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${entities.length} entities matching '${search}':\n\n${entitiesStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error searching entities:", error);
+        return createToolErrorResult("Failed to search entities", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform entity metadata
+  server.tool(
+    "get-entity-metadata",
+    "Get metadata about a PowerPlatform entity",
+    {
+      entityName: z.string().describe("The logical name of the entity"),
+      environment: environmentSchema,
+    },
+    async ({ entityName, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const metadata = await service.getEntityMetadata(entityName);
+
+        // Format the metadata as a string for text display
+        const metadataStr = JSON.stringify(metadata, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Entity metadata for '${entityName}':\n\n${metadataStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error getting entity metadata:", error);
+        return createToolErrorResult("Failed to get entity metadata", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform entity attributes
+  server.tool(
+    "get-entity-attributes",
+    "Get attributes/fields of a PowerPlatform entity",
+    {
+      entityName: z.string().describe("The logical name of the entity"),
+      detailed: z.boolean().optional().describe("Include type, display name, requiredness, max length, format, lookup targets and choice options (default: false)"),
+      environment: environmentSchema,
+    },
+    async ({ entityName, detailed, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const attributes = detailed
+          ? await service.getEntityAttributeDetails(entityName)
+          : await service.getEntityAttributes(entityName);
+
+        // Format the attributes as a string for text display
+        const attributesStr = JSON.stringify(attributes, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Attributes for entity '${entityName}':\n\n${attributesStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error getting entity attributes:", error);
+        return createToolErrorResult("Failed to get entity attributes", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform specific entity attribute
+  server.tool(
+    "get-entity-attribute",
+    "Get a specific attribute/field of a PowerPlatform entity",
+    {
+      entityName: z.string().describe("The logical name of the entity"),
+      attributeName: z.string().describe("The logical name of the attribute"),
+      environment: environmentSchema,
+    },
+    async ({ entityName, attributeName, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const attribute = await service.getEntityAttribute(entityName, attributeName);
+
+        // Format the attribute as a string for text display
+        const attributeStr = JSON.stringify(attribute, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Attribute '${attributeName}' for entity '${entityName}':\n\n${attributeStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error getting entity attribute:", error);
+        return createToolErrorResult("Failed to get entity attribute", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform entity relationships
+  server.tool(
+    "get-entity-relationships",
+    "Get relationships (one-to-many and many-to-many) for a PowerPlatform entity",
+    {
+      entityName: z.string().describe("The logical name of the entity"),
+      environment: environmentSchema,
+    },
+    async ({ entityName, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const relationships = await service.getEntityRelationships(entityName);
+
+        // Format the relationships as a string for text display
+        const relationshipsStr = JSON.stringify(relationships, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Relationships for entity '${entityName}':\n\n${relationshipsStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error getting entity relationships:", error);
+        return createToolErrorResult("Failed to get entity relationships", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform relationship graph
+  server.tool(
+    "get-relationship-graph",
+    "Get the entities related to an entity through one-to-many, many-to-one and many-to-many relationships, up to a number of relationships away",
+    {
+      entityName: z.string().describe("The logical name of the entity to start at"),
+      depth: z.number().int().min(1).max(3).optional().describe("How many relationships away to go (default: 1)"),
+      includeSystemEntities: z.boolean().optional().describe("Also traverse through systemuser, team, businessunit, organization and transactioncurrency, which relate to almost every entity (default: false)"),
+      environment: environmentSchema,
+    },
+    async ({ entityName, depth, includeSystemEntities, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const graph = await buildRelationshipGraph(service, entityName, depth || 1, { includeSystemEntities });
+
+        // One line per relationship keeps large graphs readable
+        const hopsStr = graph.hops
+          .map(hop => `- ${hop.from} → ${hop.to}: ${hop.relationshipType} '${hop.relationshipSchemaName}' via ${hop.navigationProperty}${hop.intersectEntity ? ` (intersect entity ${hop.intersectEntity})` : ""}`)
+          .join("\n");
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Relationship graph of '${entityName}' to depth ${graph.depth}: ${graph.entities.length} entities, ${graph.hops.length} relationships\n\n${hopsStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error building relationship graph:", error);
+        return createToolErrorResult("Failed to build relationship graph", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform relationship path
+  server.tool(
+    "find-relationship-path",
+    "Find the shortest join paths between two entities, with the navigation properties to $expand, the join columns and the intersect entity of many-to-many relationships",
+    {
+      fromEntity: z.string().describe("The logical name of the entity to start at"),
+      toEntity: z.string().describe("The logical name of the entity to reach"),
+      maxDepth: z.number().int().min(1).max(4).optional().describe("The longest path to look for, in relationships (default: 3)"),
+      maxPaths: z.number().int().min(1).optional().describe("Maximum number of paths to return (default: 5)"),
+      includeSystemEntities: z.boolean().optional().describe("Also find paths through systemuser, team, businessunit, organization and transactioncurrency (default: false)"),
+      environment: environmentSchema,
+    },
+    async ({ fromEntity, toEntity, maxDepth, maxPaths, includeSystemEntities, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const paths = await findRelationshipPaths(service, fromEntity, toEntity, maxDepth || 3, maxPaths || 5, { includeSystemEntities });
+
+        if (paths.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No path from '${fromEntity}' to '${toEntity}' within ${maxDepth || 3} relationships`,
+              },
+            ],
           };
-          break;
         }
+
+        // Format the paths as a string for text display
+        const pathsStr = JSON.stringify(paths, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${paths.length} shortest paths from '${fromEntity}' to '${toEntity}' (${paths[0].hops.length} relationships):\n\n${pathsStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error finding relationship path:", error);
+        return createToolErrorResult("Failed to find relationship path", error, environment);
       }
-      
-      // Replace all placeholders in the template
-      for (const [placeholder, value] of Object.entries(replacements)) {
-        promptContent = promptContent.replace(placeholder, value);
+    }
+  );
+
+  // PowerPlatform global option set
+  server.tool(
+    "get-global-option-set",
+    "Get a global option set definition by name",
+    {
+      optionSetName: z.string().describe("The name of the global option set"),
+      environment: environmentSchema,
+    },
+    async ({ optionSetName, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const optionSet = await service.getGlobalOptionSet(optionSetName);
+
+        // Format the option set as a string for text display
+        const optionSetStr = JSON.stringify(optionSet, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Global option set '${optionSetName}':\n\n${optionSetStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error getting global option set:", error);
+        return createToolErrorResult("Failed to get global option set", error, environment);
       }
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: promptContent,
-          },
-        ],
+    }
+  );
+
+  // PowerPlatform entity schema snapshot
+  server.tool(
+    "save-entity-schema-snapshot",
+    "Save the attributes, relationships and global option sets of an entity to a JSON file, for later comparison with compare-entity-schema",
+    {
+      entityName: z.string().describe("The logical name of the entity"),
+      outputPath: z.string().describe("Path of the JSON file to write. Relative to POWERPLATFORM_FILES_DIRECTORY when it is set"),
+      environment: environmentSchema,
+    },
+    async ({ entityName, outputPath, environment }) => {
+      try {
+        const snapshotPath = resolveToolPath(outputPath, fileAccess);
+
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const snapshot = await service.getEntitySchemaSnapshot(entityName);
+        await writeEntitySchemaSnapshot(snapshot, snapshotPath);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Saved the schema of '${entityName}' (${snapshot.attributes.length} attributes, ${snapshot.relationships.length} relationships, ${Object.keys(snapshot.optionSets).length} global option sets) to '${outputPath}'`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error saving entity schema snapshot:", error);
+        return createToolErrorResult("Failed to save entity schema snapshot", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform entity schema comparison
+  server.tool(
+    "compare-entity-schema",
+    "Compare the attributes, relationships and option sets of an entity between two environments, or between an environment and a saved JSON snapshot. Reports added, removed and changed fields, type changes and option value changes",
+    {
+      entityName: z.string().describe("The logical name of the entity"),
+      sourceEnvironment: z.string().optional().describe("Environment to compare from (default: the default environment)"),
+      sourceSnapshotPath: z.string().optional().describe("Snapshot file to compare from instead of an environment. Relative to POWERPLATFORM_FILES_DIRECTORY when it is set"),
+      targetEnvironment: z.string().optional().describe("Environment to compare to"),
+      targetSnapshotPath: z.string().optional().describe("Snapshot file to compare to instead of an environment. Relative to POWERPLATFORM_FILES_DIRECTORY when it is set"),
+    },
+    async ({ entityName, sourceEnvironment, sourceSnapshotPath, targetEnvironment, targetSnapshotPath }) => {
+      // The side that failed to load, so the error names its environment or snapshot
+      let failed: { description: string, environment?: string } | undefined;
+      const loadSide = async (side: string, environment?: string, snapshotPath?: string) => {
+        try {
+          return await loadEntitySchema(entityName, environment, snapshotPath && resolveToolPath(snapshotPath, fileAccess));
+        } catch (error) {
+          const environmentName = environment || ENVIRONMENTS_CONFIG.defaultEnvironment;
+          failed ??= snapshotPath
+            ? { description: `${side} snapshot '${snapshotPath}'` }
+            : { description: `${side} environment '${environmentName}'`, environment: environmentName };
+          throw error;
+        }
       };
-    } catch (error: any) {
-      console.error("Error using PowerPlatform prompt:", error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to use PowerPlatform prompt: ${error.message}`,
+
+      try {
+        if (!targetEnvironment && !targetSnapshotPath) {
+          throw new Error("Specify targetEnvironment or targetSnapshotPath to compare with");
+        }
+
+        const [source, target] = await Promise.all([
+          loadSide("source", sourceEnvironment, sourceSnapshotPath),
+          loadSide("target", targetEnvironment, targetSnapshotPath),
+        ]);
+        const diff = compareEntitySchemas(source.schema, target.schema);
+
+        // Format the differences as a string for text display
+        const diffStr = JSON.stringify(diff, null, 2);
+        const summary = diff.identical
+          ? `The schema of '${entityName}' is identical in ${source.label} and ${target.label}.`
+          : `Differences in the schema of '${entityName}' from ${source.label} to ${target.label} ('added' means only in the target):`;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: diff.identical ? summary : `${summary}\n\n${diffStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error comparing entity schema:", error);
+        return createToolErrorResult(
+          failed ? `Failed to compare entity schema: could not load the ${failed.description}` : "Failed to compare entity schema",
+          error,
+          failed ? failed.environment : sourceEnvironment
+        );
+      }
+    }
+  );
+
+  // PowerPlatform schema export
+  server.tool(
+    "export-schema",
+    "Export the schema of a set of entities, or of the entities in a solution, to JSON snapshots, Markdown data dictionaries, a Mermaid erDiagram and TypeScript interfaces with option sets as enums",
+    {
+      entityNames: z.array(z.string()).optional().describe("Logical names of the entities to export"),
+      solutionUniqueName: z.string().optional().describe("Export the entities of this solution (in addition to entityNames)"),
+      outputDirectory: z.string().describe("Directory to write the files to. Relative to POWERPLATFORM_FILES_DIRECTORY when it is set"),
+      formats: z.array(z.enum(SCHEMA_EXPORT_FORMATS)).optional().describe("Formats to write (default: all)"),
+      environment: environmentSchema,
+    },
+    async ({ entityNames, solutionUniqueName, outputDirectory, formats, environment }) => {
+      try {
+        // The export-schema command line is not confined, only the tool
+        const directory = resolveToolPath(outputDirectory, fileAccess);
+
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const result = await exportSchema(service, { entityNames, solutionUniqueName, outputDirectory: directory, formats });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Exported the schema of ${result.entityNames.length} entities (${result.entityNames.join(", ")}) to '${outputDirectory}':\n${result.files.map(file => `- ${file}`).join("\n")}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error exporting schema:", error);
+        return createToolErrorResult("Failed to export schema", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform metadata cache
+  server.tool(
+    "clear-metadata-cache",
+    "Clear cached entity metadata so it is fetched again from Dataverse, e.g. after a schema change",
+    {
+      entityName: z.string().optional().describe("The logical name of the entity whose metadata should be cleared; clears all cached metadata when omitted"),
+      environment: environmentSchema,
+    },
+    async ({ entityName, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const removed = service.clearMetadataCache(entityName);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: entityName
+                ? `Cleared ${removed} cached metadata entries for entity '${entityName}'`
+                : `Cleared ${removed} cached metadata entries`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error clearing metadata cache:", error);
+        return createToolErrorResult("Failed to clear metadata cache", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform solutions
+  server.tool(
+    "list-solutions",
+    "List the solutions installed in the environment with their version and publisher",
+    {
+      includeManaged: z.boolean().optional().describe("Include managed solutions (default: true)"),
+      environment: environmentSchema,
+    },
+    async ({ includeManaged, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const solutions = await service.listSolutions(includeManaged ?? true);
+
+        // Format the solutions as a string for text display
+        const solutionsStr = JSON.stringify(solutions, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${solutions.length} solutions:\n\n${solutionsStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error listing solutions:", error);
+        return createToolErrorResult("Failed to list solutions", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform solution publishers
+  server.tool(
+    "list-publishers",
+    "List the solution publishers with their customization prefixes",
+    {
+      environment: environmentSchema,
+    },
+    async ({ environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const publishers = await service.listPublishers();
+
+        // Format the publishers as a string for text display
+        const publishersStr = JSON.stringify(publishers, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${publishers.length} publishers:\n\n${publishersStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error listing publishers:", error);
+        return createToolErrorResult("Failed to list publishers", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform solution components
+  server.tool(
+    "get-solution-components",
+    "Get the components of a solution (entities, forms, views, workflows, web resources, plugin steps, ...) grouped by type, with their names",
+    {
+      solutionUniqueName: z.string().describe("The unique name of the solution"),
+      environment: environmentSchema,
+    },
+    async ({ solutionUniqueName, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const groups = await service.getSolutionComponents(solutionUniqueName);
+
+        // Format the component groups as a string for text display
+        const groupsStr = JSON.stringify(groups, null, 2);
+        const componentCount = groups.reduce((count, group) => count + group.components.length, 0);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Solution '${solutionUniqueName}' has ${componentCount} components of ${groups.length} types:\n\n${groupsStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error getting solution components:", error);
+        return createToolErrorResult("Failed to get solution components", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform solutions containing an entity or attribute
+  server.tool(
+    "find-solutions-containing",
+    "Find the solutions that contain an entity, or one of its attributes",
+    {
+      entityName: z.string().describe("The logical name of the entity"),
+      attributeName: z.string().optional().describe("The logical name of an attribute of the entity; omit to look up the entity itself"),
+      environment: environmentSchema,
+    },
+    async ({ entityName, attributeName, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const solutions = await service.findSolutionsContaining(entityName, attributeName);
+
+        // Format the solutions as a string for text display
+        const solutionsStr = JSON.stringify(solutions, null, 2);
+        const component = attributeName ? `attribute '${entityName}.${attributeName}'` : `entity '${entityName}'`;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${solutions.length} solutions containing ${component}:\n\n${solutionsStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error finding solutions:", error);
+        return createToolErrorResult("Failed to find solutions", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform solution export
+  server.tool(
+    "export-solution",
+    "Export a solution to a local zip file and unpack solution.xml, customizations.xml (split per entity) and the other files into a folder next to it",
+    {
+      solutionUniqueName: z.string().describe("The unique name of the solution"),
+      managed: z.boolean().optional().describe("Export as a managed solution (default: false)"),
+      outputPath: z.string().optional().describe("Path of the zip file to write (default: '<solutionUniqueName>_<managed|unmanaged>.zip'). Relative to POWERPLATFORM_FILES_DIRECTORY when it is set"),
+      unpack: z.boolean().optional().describe("Unpack the zip into a folder named after it (default: true)"),
+      environment: environmentSchema,
+    },
+    async ({ solutionUniqueName, managed, outputPath, unpack, environment }) => {
+      try {
+        const zipPath = resolveToolPath(outputPath || `${solutionUniqueName}_${managed ? "managed" : "unmanaged"}.zip`, fileAccess);
+
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const zip = await service.exportSolution(solutionUniqueName, managed ?? false);
+        const saved = await saveSolutionPackage(zip, zipPath, unpack ?? true, fileAccess);
+
+        const unpackText = saved.unpackedDirectory
+          ? `\n\nUnpacked ${saved.files.length} files to '${saved.unpackedDirectory}':\n${saved.files.map(file => `- ${file}`).join("\n")}`
+          : "";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Exported solution '${saved.manifest.uniqueName}' version ${saved.manifest.version} (${saved.manifest.managed ? "managed" : "unmanaged"}) to '${saved.zipPath}' (${zip.length} bytes).${unpackText}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error exporting solution:", error);
+        return createToolErrorResult("Failed to export solution", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform solution import
+  server.tool(
+    "import-solution",
+    "Import a solution zip asynchronously and wait briefly for the import job to finish. Imports still running afterwards can be followed with get-solution-import-status. Requires POWERPLATFORM_ENABLE_WRITE=true",
+    {
+      zipPath: z.string().describe("Path of the solution zip file to import. Relative to POWERPLATFORM_FILES_DIRECTORY when it is set"),
+      overwriteUnmanagedCustomizations: z.boolean().optional().describe("Overwrite unmanaged customizations of components in the solution (default: false)"),
+      publishWorkflows: z.boolean().optional().describe("Activate processes included in the solution (default: true)"),
+      timeoutSeconds: z.number().int().min(0).optional().describe("How long to wait for the import to finish before returning its IDs (default: 45). MCP clients usually give up on tool calls after about a minute"),
+      environment: environmentSchema,
+    },
+    async ({ zipPath, overwriteUnmanagedCustomizations, publishWorkflows, timeoutSeconds, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const { zip, manifest } = await readSolutionPackage(resolveToolPath(zipPath, fileAccess));
+        const result = await service.importSolution(zip, {
+          overwriteUnmanagedCustomizations,
+          publishWorkflows,
+          timeoutMs: timeoutSeconds !== undefined ? timeoutSeconds * 1000 : undefined
+        });
+
+        const resultStr = JSON.stringify(result, null, 2);
+        const solution = `'${manifest.uniqueName}' version ${manifest.version}`;
+        const summary = result.status === "InProgress"
+          ? `Import of solution ${solution} is still running. Check it with get-solution-import-status using the asyncOperationId and importJobId below`
+          : `Import of solution ${solution} finished with status ${result.status}`;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${summary}:\n\n${resultStr}`,
+            },
+          ],
+          isError: result.status === "Failed" || result.status === "Canceled",
+        };
+      } catch (error: any) {
+        console.error("Error importing solution:", error);
+        return createToolErrorResult("Failed to import solution", error, environment);
+      }
+    }
+  );
+
+  server.tool(
+    "get-solution-import-status",
+    "Check the status and progress of a solution import started with import-solution",
+    {
+      asyncOperationId: z.string().uuid().describe("The asyncOperationId returned by import-solution"),
+      importJobId: z.string().uuid().describe("The importJobId returned by import-solution"),
+      environment: environmentSchema,
+    },
+    async ({ asyncOperationId, importJobId, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const result = await service.getSolutionImportStatus(asyncOperationId, importJobId);
+
+        const resultStr = JSON.stringify(result, null, 2);
+        const summary = result.status === "InProgress"
+          ? `Solution import is still running`
+          : `Solution import finished with status ${result.status}`;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${summary}:\n\n${resultStr}`,
+            },
+          ],
+          isError: result.status === "Failed" || result.status === "Canceled",
+        };
+      } catch (error: any) {
+        console.error("Error getting solution import status:", error);
+        return createToolErrorResult("Failed to get solution import status", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform plugin assemblies
+  server.tool(
+    "list-plugin-assemblies",
+    "List the registered plugin assemblies with their version, isolation mode and plugin types",
+    {
+      environment: environmentSchema,
+    },
+    async ({ environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const assemblies = await service.listPluginAssemblies();
+
+        // Format the assemblies as a string for text display
+        const assembliesStr = JSON.stringify(assemblies, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${assemblies.length} plugin assemblies:\n\n${assembliesStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error listing plugin assemblies:", error);
+        return createToolErrorResult("Failed to list plugin assemblies", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform plugin steps
+  server.tool(
+    "get-plugin-steps",
+    "Get the plugin steps registered for an entity and/or message, in execution order, with stage, mode, rank, filtering attributes and images",
+    {
+      entityName: z.string().optional().describe("The logical name of the entity (e.g., 'account')"),
+      messageName: z.string().optional().describe("The message (e.g., 'Create', 'Update', 'Delete')"),
+      includeHidden: z.boolean().optional().describe("Include internal platform steps (default: false)"),
+      environment: environmentSchema,
+    },
+    async ({ entityName, messageName, includeHidden, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const steps = await service.getPluginSteps({ entityName, messageName, includeHidden });
+
+        // Format the steps as a string for text display
+        const stepsStr = JSON.stringify(steps, null, 2);
+        const scope = [messageName && `message '${messageName}'`, entityName && `entity '${entityName}'`].filter(Boolean).join(" on ");
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${steps.length} plugin steps${scope ? ` for ${scope}` : ""}:\n\n${stepsStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error getting plugin steps:", error);
+        return createToolErrorResult("Failed to get plugin steps", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform plugin trace logs
+  server.tool(
+    "get-plugin-trace-logs",
+    "Get recent plugin trace logs, newest first, filtered by plugin type name, correlation ID or time window. Requires plugin trace logging to be enabled in the environment",
+    {
+      typeName: z.string().optional().describe("Part of the plugin type name (e.g., 'Contoso.Plugins.AccountPlugin')"),
+      correlationId: z.string().uuid().optional().describe("Correlation ID shared by all operations of one request"),
+      since: z.string().datetime({ offset: true }).optional().describe("Only logs created at or after this ISO timestamp (e.g., '2024-05-01T08:00:00Z')"),
+      until: z.string().datetime({ offset: true }).optional().describe("Only logs created at or before this ISO timestamp"),
+      maxRecords: z.number().optional().describe("Maximum number of logs to return (default: 20)"),
+      environment: environmentSchema,
+    },
+    async ({ typeName, correlationId, since, until, maxRecords, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const logs = await service.getPluginTraceLogs({ typeName, correlationId, since, until, maxRecords });
+
+        // Format the logs as a string for text display
+        const logsStr = JSON.stringify(logs, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${logs.length} plugin trace logs:\n\n${logsStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error getting plugin trace logs:", error);
+        return createToolErrorResult("Failed to get plugin trace logs", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform forms
+  server.tool(
+    "list-forms",
+    "List the forms (main, quick create, quick view, card, ...) of an entity",
+    {
+      entityName: z.string().describe("The logical name of the entity"),
+      environment: environmentSchema,
+    },
+    async ({ entityName, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const forms = await service.listForms(entityName);
+
+        // Format the forms as a string for text display
+        const formsStr = JSON.stringify(forms, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${forms.length} forms for '${entityName}':\n\n${formsStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error listing forms:", error);
+        return createToolErrorResult("Failed to list forms", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform form layout
+  server.tool(
+    "get-form-layout",
+    "Get the layout of a form as an outline of its tabs, sections, fields, subgrids and other controls",
+    {
+      formId: z.string().describe("The GUID of the form (see list-forms)"),
+      environment: environmentSchema,
+    },
+    async ({ formId, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const form = await service.getFormLayout(formId);
+
+        // Format the form as a string for text display
+        const formStr = JSON.stringify(form, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Layout of ${form.type} form '${form.name}' of '${form.entity}':\n\n${formStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error getting form layout:", error);
+        return createToolErrorResult("Failed to get form layout", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform views
+  server.tool(
+    "list-views",
+    "List the system views (savedqueries) and personal views (userqueries) of an entity",
+    {
+      entityName: z.string().describe("The logical name of the entity"),
+      includePersonal: z.boolean().optional().describe("Include personal views (default: true)"),
+      environment: environmentSchema,
+    },
+    async ({ entityName, includePersonal, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const views = await service.listViews(entityName, includePersonal ?? true);
+
+        // Format the views as a string for text display
+        const viewsStr = JSON.stringify(views, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${views.length} views for '${entityName}':\n\n${viewsStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error listing views:", error);
+        return createToolErrorResult("Failed to list views", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform view definition
+  server.tool(
+    "get-view",
+    "Get a view with its columns, filters, sort order and linked entities, and the FetchXML behind it",
+    {
+      viewId: z.string().describe("The GUID of the view (see list-views)"),
+      viewType: z.enum(["system", "personal"]).optional().describe("Whether the view is a system view (savedquery) or a personal view (userquery) (default: system)"),
+      environment: environmentSchema,
+    },
+    async ({ viewId, viewType, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const view = await service.getView(viewId, viewType || "system");
+
+        // Format the view as a string for text display
+        const viewStr = JSON.stringify(view, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `View '${view.name}' of '${view.entity}':\n\n${viewStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error getting view:", error);
+        return createToolErrorResult("Failed to get view", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform run view
+  server.tool(
+    "run-view",
+    "Run the query of a system or personal view and return its rows",
+    {
+      viewId: z.string().describe("The GUID of the view (see list-views)"),
+      viewType: z.enum(["system", "personal"]).optional().describe("Whether the view is a system view (savedquery) or a personal view (userquery) (default: system)"),
+      maxRecords: z.number().optional().describe("Maximum number of rows to return (default: 50)"),
+      environment: environmentSchema,
+    },
+    async ({ viewId, viewType, maxRecords, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const result = await service.runView(viewId, viewType || "system", maxRecords || 50);
+
+        // Format the rows as a string for text display
+        const rowsStr = JSON.stringify(result.value, null, 2);
+        const moreText = result.moreRecords ? "\n\nMore rows are available; increase maxRecords to retrieve them." : "";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Retrieved ${result.value.length} rows of '${result.entityName}' from the view:\n\n${rowsStr}${moreText}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error running view:", error);
+        return createToolErrorResult("Failed to run view", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform workflows and cloud flows
+  server.tool(
+    "list-workflows",
+    "List classic workflows and cloud flows (or other process categories), optionally only those running on or triggered by an entity. Cloud flows include their trigger, connectors and number of actions",
+    {
+      entityName: z.string().optional().describe("Only processes on this entity; cloud flows are matched by the entity of their Dataverse trigger"),
+      categories: z.array(z.enum(Object.keys(WORKFLOW_CATEGORY_VALUES) as [WorkflowCategory, ...WorkflowCategory[]])).optional().describe("Process categories to list (default: workflow and cloud-flow)"),
+      includeLastRun: z.boolean().optional().describe("Include the last run status from flowsessions, where available (default: false)"),
+      environment: environmentSchema,
+    },
+    async ({ entityName, categories, includeLastRun, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const workflows = await service.listWorkflows({
+          entityName,
+          categories: categories?.map(category => WORKFLOW_CATEGORY_VALUES[category]),
+          includeLastRun
+        });
+
+        // Keep the list short; get-workflow returns the full flow definition
+        const workflowsStr = JSON.stringify(workflows.map(workflow => workflow.flow ? {
+          ...workflow,
+          flow: {
+            triggers: workflow.flow.triggers,
+            connectors: workflow.flow.connectors,
+            actionCount: workflow.flow.actions.length,
           },
-        ],
-      };
+        } : workflow), null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${workflows.length} processes${entityName ? ` on '${entityName}'` : ""}:\n\n${workflowsStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error listing workflows:", error);
+        return createToolErrorResult("Failed to list workflows", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform workflow or cloud flow details
+  server.tool(
+    "get-workflow",
+    "Get a classic workflow or cloud flow by ID, with the trigger, all actions and connectors of cloud flows and the last run status",
+    {
+      workflowId: z.string().describe("The GUID of the workflow"),
+      environment: environmentSchema,
+    },
+    async ({ workflowId, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const workflow = await service.getWorkflow(workflowId);
+
+        // Format the workflow as a string for text display
+        const workflowStr = JSON.stringify(workflow, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${workflow.category} '${workflow.name}':\n\n${workflowStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error getting workflow:", error);
+        return createToolErrorResult("Failed to get workflow", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform security roles
+  server.tool(
+    "list-security-roles",
+    "List the security roles of the environment",
+    {
+      environment: environmentSchema,
+    },
+    async ({ environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const roles = await service.listSecurityRoles();
+
+        // Format the roles as a string for text display
+        const rolesStr = JSON.stringify(roles, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${roles.length} security roles:\n\n${rolesStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error listing security roles:", error);
+        return createToolErrorResult("Failed to list security roles", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform security role privileges
+  server.tool(
+    "get-role-privileges",
+    "Get the privileges of a security role per entity (Create, Read, Write, Delete, Append, AppendTo, Assign, Share) with their access level (User, Business Unit, Parent: Child Business Unit, Organization)",
+    {
+      role: z.string().describe("The ID or name of the security role"),
+      entityName: z.string().optional().describe("Only show the privileges on this entity"),
+      environment: environmentSchema,
+    },
+    async ({ role, entityName, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const privileges = await service.getRolePrivileges(role);
+        const result = entityName
+          ? { role: privileges.role, entities: privileges.entities.filter(entry => entry.entity === entityName) }
+          : privileges;
+
+        // Format the privileges as a string for text display
+        const privilegesStr = JSON.stringify(result, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Privileges of security role '${privileges.role.name}'${entityName ? ` on '${entityName}'` : ""}:\n\n${privilegesStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error getting role privileges:", error);
+        return createToolErrorResult("Failed to get role privileges", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform user roles and teams
+  server.tool(
+    "get-user-security",
+    "Get the security roles and teams of a user, including the roles each team grants",
+    {
+      user: z.string().describe("The user's ID, domain name (e.g., 'someone@contoso.com'), email address or full name"),
+      environment: environmentSchema,
+    },
+    async ({ user, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const security = await service.getUserSecurity(user);
+
+        // Format the roles and teams as a string for text display
+        const securityStr = JSON.stringify(security, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `User '${security.fullName}' has ${security.roles.length} roles and is a member of ${security.teams.length} teams:\n\n${securityStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error getting user security:", error);
+        return createToolErrorResult("Failed to get user security", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform user access check
+  server.tool(
+    "check-user-access",
+    "Check whether a user can read, write or delete records of an entity. With a recordId, returns the user's actual rights on that record (accounting for ownership and sharing); otherwise checks the privileges granted by the user's own and team roles",
+    {
+      user: z.string().describe("The user's ID, domain name (e.g., 'someone@contoso.com'), email address or full name"),
+      entityName: z.string().describe("The entity set name (e.g., 'accounts') or logical name (e.g., 'account')"),
+      recordId: z.string().optional().describe("The GUID of a specific record to check"),
+      environment: environmentSchema,
+    },
+    async ({ user, entityName, recordId, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const access = await service.checkUserAccess(user, entityName, recordId);
+
+        // Format the result as a string for text display
+        const accessStr = JSON.stringify(access, null, 2);
+        const target = recordId ? `record '${recordId}' of '${access.entity}'` : `'${access.entity}' records`;
+        const answer = `User '${user}' ${access.canRead ? "can" : "cannot"} read, ${access.canWrite ? "can" : "cannot"} write and ${access.canDelete ? "can" : "cannot"} delete ${target}`;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${answer}:\n\n${accessStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error checking user access:", error);
+        return createToolErrorResult("Failed to check user access", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform record audit history
+  server.tool(
+    "get-record-audit-history",
+    "Get the audit history of a record, newest first: who changed it, when, and the before and after values of each changed field with option labels resolved. Requires auditing to be enabled for the environment and the entity",
+    {
+      entityName: z.string().describe("The entity set name (e.g., 'accounts') or logical name (e.g., 'account')"),
+      recordId: z.string().uuid().describe("The GUID of the record"),
+      attributes: z.array(z.string()).optional().describe("Only show changes to these fields (logical names)"),
+      since: z.string().datetime({ offset: true }).optional().describe("Only changes made at or after this ISO timestamp (e.g., '2024-05-01T08:00:00Z')"),
+      until: z.string().datetime({ offset: true }).optional().describe("Only changes made at or before this ISO timestamp"),
+      maxRecords: z.number().optional().describe("Maximum number of audit entries to return (default: 50)"),
+      environment: environmentSchema,
+    },
+    async ({ entityName, recordId, attributes, since, until, maxRecords, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const entries = await service.getRecordAuditHistory(entityName, recordId, { attributes, since, until, maxRecords });
+
+        // Format the audit entries as a string for text display
+        const entriesStr = JSON.stringify(entries, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${entries.length} audit entries for record '${recordId}':\n\n${entriesStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error getting record audit history:", error);
+        return createToolErrorResult("Failed to get record audit history", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform record by ID
+  server.tool(
+    "get-record",
+    "Get a specific record by entity name and ID",
+    {
+      entityNamePlural: z.string().describe("The entity set (plural) name (e.g., 'accounts') or logical name (e.g., 'account') of the entity"),
+      recordId: z.string().describe("The GUID of the record"),
+      raw: z.boolean().optional().describe("Return the raw Web API payload instead of readable values (default: false). By default choices, currency and dates come as { value, formatted } and lookups as { id, entity, name }"),
+      environment: environmentSchema,
+    },
+    async ({ entityNamePlural, recordId, raw, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const record = await service.getRecord(entityNamePlural, recordId, { raw });
+
+        // Format the record as a string for text display
+        const recordStr = JSON.stringify(record, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Record from '${entityNamePlural}' with ID '${recordId}':\n\n${recordStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error getting record:", error);
+        return createToolErrorResult("Failed to get record", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform FetchXML query
+  server.tool(
+    "execute-fetchxml",
+    "Execute a FetchXML query. Supports aggregation (count, sum, avg, min, max with groupby), outer joins and link-entity filters",
+    {
+      fetchXml: z.string().describe("The FetchXML query (e.g., <fetch aggregate=\"true\"><entity name=\"account\"><attribute name=\"accountid\" alias=\"total\" aggregate=\"count\" /></entity></fetch>)"),
+      maxRecords: z.number().optional().describe("Maximum number of records to retrieve across pages (default: 5000). Ignored for aggregate queries"),
+      environment: environmentSchema,
+    },
+    async ({ fetchXml, maxRecords, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const result = await service.executeFetchXml(fetchXml, maxRecords || 5000);
+
+        // Format the results as a string for text display
+        const resultsStr = JSON.stringify(result.value, null, 2);
+        const kind = result.aggregate ? "aggregate rows" : "records";
+        const moreText = result.moreRecords ? "\n\nMore records are available. Increase maxRecords or narrow the query to see them." : "";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Retrieved ${result.value.length} ${kind} from '${result.entityName}' with FetchXML:\n\n${resultsStr}${moreText}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error executing FetchXML:", error);
+        return createToolErrorResult("Failed to execute FetchXML", error, environment);
+      }
+    }
+  );
+
+  // Sort clause shared by query-records and its nested $expand options
+  const orderBySchema = z.object({
+    attribute: z.string().describe("The logical name of the attribute to sort by"),
+    descending: z.boolean().optional().describe("Sort in descending order (default: false)"),
+  });
+
+  // PowerPlatform query records with filter
+  server.tool(
+    "query-records",
+    "Query records using an OData filter expression with optional $select, $orderby, $expand and $count. Follows paging links up to maxRecords and returns a continuation token when more records are available",
+    {
+      entityNamePlural: z.string().describe("The entity set (plural) name (e.g., 'accounts') or logical name (e.g., 'account') of the entity"),
+      filter: z.string().optional().describe("OData filter expression (e.g., \"name eq 'test'\" or \"createdon gt 2023-01-01\"); omit to return all records"),
+      select: z.array(z.string()).optional().describe("Attributes to return (e.g., [\"name\", \"_primarycontactid_value\"]); omit to return all columns"),
+      orderBy: z.array(orderBySchema).optional().describe("Sort order, applied in sequence"),
+      expand: z.array(z.object({
+        navigationProperty: z.string().describe("The navigation property name (e.g., 'primarycontactid' or 'contact_customer_accounts')"),
+        select: z.array(z.string()).optional().describe("Attributes of the related entity to return"),
+        filter: z.string().optional().describe("OData filter expression for related records (collection-valued navigation properties only)"),
+        orderBy: z.array(orderBySchema).optional().describe("Sort order for related records (collection-valued navigation properties only)"),
+        top: z.number().optional().describe("Maximum number of related records (collection-valued navigation properties only)"),
+      })).optional().describe("Related records to include"),
+      count: z.boolean().optional().describe("Include the total number of matching records (@odata.count, capped at 5000)"),
+      maxRecords: z.number().optional().describe("Maximum number of records to retrieve (default: 50)"),
+      pageSize: z.number().optional().describe("Number of records requested per page (default: maxRecords, up to 5000)"),
+      continuationToken: z.string().optional().describe("Continuation token from a previous query-records call, to retrieve the next page. The original query options, page size and raw setting are reused"),
+      raw: z.boolean().optional().describe("Return the raw Web API payload instead of readable values (default: false). By default choices, currency and dates come as { value, formatted } and lookups as { id, entity, name }"),
+      environment: environmentSchema,
+    },
+    async ({ entityNamePlural, filter, select, orderBy, expand, count, maxRecords, pageSize, continuationToken, raw, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const records = await service.queryRecords(entityNamePlural, filter || "", maxRecords || 50, {
+          select,
+          orderBy,
+          expand,
+          count,
+          pageSize,
+          continuationToken,
+          raw
+        });
+
+        // Format the records as a string for text display
+        const { continuationToken: nextToken, ...recordsWithoutToken } = records;
+        const recordsStr = JSON.stringify(recordsWithoutToken, null, 2);
+        const recordCount = records.value?.length || 0;
+        const continuationText = nextToken
+          ? `\n\nMore records are available. Call query-records with continuationToken '${nextToken}' to retrieve the next page.`
+          : "";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Retrieved ${recordCount} records from '${entityNamePlural}'${filter ? ` with filter '${filter}'` : ""}:\n\n${recordsStr}${continuationText}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error querying records:", error);
+        return createToolErrorResult("Failed to query records", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform create record
+  server.tool(
+    "create-record",
+    "Create a new record (requires POWERPLATFORM_ENABLE_WRITE=true)",
+    {
+      entityNamePlural: z.string().describe("The entity set (plural) name (e.g., 'accounts') or logical name (e.g., 'account') of the entity"),
+      data: z.record(z.any()).describe("The attribute values of the new record (e.g., { \"name\": \"Contoso\" })"),
+      environment: environmentSchema,
+    },
+    async ({ entityNamePlural, data, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const record = await service.createRecord(entityNamePlural, data);
+
+        // Format the record as a string for text display
+        const recordStr = JSON.stringify(record, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Created record in '${entityNamePlural}':\n\n${recordStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error creating record:", error);
+        return createToolErrorResult("Failed to create record", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform update record
+  server.tool(
+    "update-record",
+    "Update an existing record (requires POWERPLATFORM_ENABLE_WRITE=true)",
+    {
+      entityNamePlural: z.string().describe("The entity set (plural) name (e.g., 'accounts') or logical name (e.g., 'account') of the entity"),
+      recordId: z.string().describe("The GUID of the record"),
+      data: z.record(z.any()).describe("The attribute values to update"),
+      etag: z.string().optional().describe("The record's @odata.etag; when set, the update fails if the record was changed since it was read"),
+      environment: environmentSchema,
+    },
+    async ({ entityNamePlural, recordId, data, etag, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const record = await service.updateRecord(entityNamePlural, recordId, data, etag);
+
+        // Format the record as a string for text display
+        const recordStr = JSON.stringify(record, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Updated record in '${entityNamePlural}' with ID '${recordId}':\n\n${recordStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error updating record:", error);
+        return createToolErrorResult("Failed to update record", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform upsert record
+  server.tool(
+    "upsert-record",
+    "Create a record, or update it if it already exists (requires POWERPLATFORM_ENABLE_WRITE=true)",
+    {
+      entityNamePlural: z.string().describe("The entity set (plural) name (e.g., 'accounts') or logical name (e.g., 'account') of the entity"),
+      recordId: z.string().describe("The GUID of the record, or an alternate key expression (e.g., \"accountnumber='A-1'\")"),
+      data: z.record(z.any()).describe("The attribute values of the record"),
+      environment: environmentSchema,
+    },
+    async ({ entityNamePlural, recordId, data, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        const record = await service.upsertRecord(entityNamePlural, recordId, data);
+
+        // Format the record as a string for text display
+        const recordStr = JSON.stringify(record, null, 2);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Upserted record in '${entityNamePlural}' with ID '${recordId}':\n\n${recordStr}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error upserting record:", error);
+        return createToolErrorResult("Failed to upsert record", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform delete record
+  server.tool(
+    "delete-record",
+    "Delete a record (requires POWERPLATFORM_ENABLE_WRITE=true)",
+    {
+      entityNamePlural: z.string().describe("The entity set (plural) name (e.g., 'accounts') or logical name (e.g., 'account') of the entity"),
+      recordId: z.string().describe("The GUID of the record"),
+      etag: z.string().optional().describe("The record's @odata.etag; when set, the delete fails if the record was changed since it was read"),
+      environment: environmentSchema,
+    },
+    async ({ entityNamePlural, recordId, etag, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+        await service.deleteRecord(entityNamePlural, recordId, etag);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Deleted record from '${entityNamePlural}' with ID '${recordId}'`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error deleting record:", error);
+        return createToolErrorResult("Failed to delete record", error, environment);
+      }
+    }
+  );
+
+  // PowerPlatform MCP Prompts
+  server.tool(
+    "use-powerplatform-prompt",
+    "Use a predefined prompt template for PowerPlatform entities",
+    {
+      promptType: z.enum([
+        "ENTITY_OVERVIEW", 
+        "ATTRIBUTE_DETAILS", 
+        "QUERY_TEMPLATE", 
+        "RELATIONSHIP_MAP"
+      ]).describe("The type of prompt template to use"),
+      entityName: z.string().describe("The logical name of the entity"),
+      attributeName: z.string().optional().describe("The logical name of the attribute (required for ATTRIBUTE_DETAILS prompt)"),
+      environment: environmentSchema,
+    },
+    async ({ promptType, entityName, attributeName, environment }) => {
+      try {
+        // Get or initialize PowerPlatformService
+        const service = getPowerPlatformService(environment);
+
+        let promptContent = "";
+        let replacements: Record<string, string> = {};
+
+        switch (promptType) {
+          case "ENTITY_OVERVIEW": {
+            // Get entity metadata and key attributes
+            const [metadata, attributes] = await Promise.all([
+              service.getEntityMetadata(entityName),
+              service.getEntityAttributeDetails(entityName)
+            ]);
+
+            // Format entity details
+            const entityDetails = `- Display Name: ${metadata.DisplayName?.UserLocalizedLabel?.Label || entityName}\n` +
+              `- Schema Name: ${metadata.SchemaName}\n` +
+              `- Description: ${metadata.Description?.UserLocalizedLabel?.Label || 'No description'}\n` +
+              `- Primary Key: ${metadata.PrimaryIdAttribute}\n` +
+              `- Primary Name: ${metadata.PrimaryNameAttribute}`;
+
+            // Get key attributes
+            const keyAttributes = attributes
+              //.slice(0, 10) // Limit to first 10 important attributes
+              .map(formatAttributeSummary)
+              .join('\n');
+
+            // Get relationships summary
+            const relationships = await service.getEntityRelationships(entityName);
+            const oneToManyCount = relationships.oneToMany.value.length;
+            const manyToManyCount = relationships.manyToMany.value.length;
+
+            const relationshipsSummary = `- One-to-Many Relationships: ${oneToManyCount}\n` +
+                                        `- Many-to-Many Relationships: ${manyToManyCount}`;
+
+            promptContent = powerPlatformPrompts.ENTITY_OVERVIEW(entityName);
+            replacements = {
+              '{{entity_details}}': entityDetails,
+              '{{key_attributes}}': keyAttributes,
+              '{{relationships}}': relationshipsSummary
+            };
+            break;
+          }
+
+          case "ATTRIBUTE_DETAILS": {
+            if (!attributeName) {
+              throw new Error("attributeName is required for ATTRIBUTE_DETAILS prompt");
+            }
+
+            // Get attribute details
+            const attribute = await service.getEntityAttribute(entityName, attributeName);
+
+            // Format attribute details
+            const attrDetails = `- Display Name: ${attribute.DisplayName?.UserLocalizedLabel?.Label || attributeName}\n` +
+              `- Description: ${attribute.Description?.UserLocalizedLabel?.Label || 'No description'}\n` +
+              `- Type: ${attribute.AttributeType}\n` +
+              `- Format: ${attribute.Format || 'N/A'}\n` +
+              `- Is Required: ${attribute.RequiredLevel?.Value || 'No'}\n` +
+              `- Is Searchable: ${attribute.IsValidForAdvancedFind || false}`;
+
+            promptContent = powerPlatformPrompts.ATTRIBUTE_DETAILS(entityName, attributeName);
+            replacements = {
+              '{{attribute_details}}': attrDetails,
+              '{{data_type}}': attribute.AttributeType,
+              '{{required}}': attribute.RequiredLevel?.Value || 'No',
+              '{{max_length}}': attribute.MaxLength || 'N/A'
+            };
+            break;
+          }
+
+          case "QUERY_TEMPLATE": {
+            promptContent = await buildQueryTemplate(service, entityName);
+            break;
+          }
+
+          case "RELATIONSHIP_MAP": {
+            // Get relationships
+            const relationships = await service.getEntityRelationships(entityName);
+
+            // Format one-to-many relationships where this entity is primary
+            const oneToManyPrimary = relationships.oneToMany.value
+              .filter((rel: any) => rel.ReferencingEntity !== entityName)
+              //.slice(0, 10) // Limit to 10 for readability
+              .map((rel: any) => `- ${rel.SchemaName}: ${entityName} (1) → ${rel.ReferencingEntity} (N)`)
+              .join('\n');
+
+            // Format one-to-many relationships where this entity is related
+            const oneToManyRelated = relationships.oneToMany.value
+              .filter((rel: any) => rel.ReferencingEntity === entityName)
+              //.slice(0, 10) // Limit to 10 for readability
+              .map((rel: any) => `- ${rel.SchemaName}: ${rel.ReferencedEntity} (1) → ${entityName} (N)`)
+              .join('\n');
+
+            // Format many-to-many relationships
+            const manyToMany = relationships.manyToMany.value
+              //.slice(0, 10) // Limit to 10 for readability
+              .map((rel: any) => {
+                const otherEntity = rel.Entity1LogicalName === entityName ? rel.Entity2LogicalName : rel.Entity1LogicalName;
+                return `- ${rel.SchemaName}: ${entityName} (N) ↔ ${otherEntity} (N)`;
+              })
+              .join('\n');
+
+            promptContent = powerPlatformPrompts.RELATIONSHIP_MAP(entityName);
+            replacements = {
+              '{{one_to_many_primary}}': oneToManyPrimary || 'None found',
+              '{{one_to_many_related}}': oneToManyRelated || 'None found',
+              '{{many_to_many}}': manyToMany || 'None found'
+            };
+            break;
+          }
+        }
+
+        // Replace all placeholders in the template
+        for (const [placeholder, value] of Object.entries(replacements)) {
+          promptContent = promptContent.replace(placeholder, value);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: promptContent,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error using PowerPlatform prompt:", error);
+        return createToolErrorResult("Failed to use PowerPlatform prompt", error, environment);
+      }
+    }
+  );
+
+  return server;
+}
+
+// Read a command line option given as "--name value" or "--name=value"
+function getCliOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`--${name}=`)) {
+      return args[i].slice(name.length + 3);
     }
   }
-);
+  return undefined;
+}
+
+// Run 'powerplatform-mcp export-schema --entities account,contact --solution <name> --output <dir> --format json,markdown --environment <name>'
+async function runExportSchemaCommand() {
+  const outputDirectory = getCliOption("output");
+  if (!outputDirectory) {
+    throw new Error("export-schema requires --output <directory>");
+  }
+
+  const formats = getCliOption("format")?.split(",").map(format => format.trim());
+  const unknownFormat = formats?.find(format => !SCHEMA_EXPORT_FORMATS.includes(format as SchemaExportFormat));
+  if (unknownFormat) {
+    throw new Error(`Unknown format '${unknownFormat}'. Use ${SCHEMA_EXPORT_FORMATS.join(", ")}.`);
+  }
+
+  const result = await exportSchema(getPowerPlatformService(getCliOption("environment")), {
+    entityNames: getCliOption("entities")?.split(",").map(name => name.trim()).filter(Boolean),
+    solutionUniqueName: getCliOption("solution"),
+    outputDirectory,
+    formats: formats as SchemaExportFormat[] | undefined,
+  });
+
+  console.error(`Exported the schema of ${result.entityNames.length} entities to '${outputDirectory}'`);
+  result.files.forEach(file => console.log(file));
+}
 
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("Initializing PowerPlatform MCP Server...");
+  // Loaded here so an invalid config file is reported through the fatal error handler below
+  ENVIRONMENTS_CONFIG = loadEnvironmentsConfig();
+
+  if (process.argv[2] === "export-schema") {
+    await runExportSchemaCommand();
+    return;
+  }
+
+  // Transport is selected with --transport or MCP_TRANSPORT (stdio by default)
+  const transportType = getCliOption("transport") || process.env.MCP_TRANSPORT || "stdio";
+
+  if (transportType === "http") {
+    const auth = loadInboundAuthOptions();
+    if (!auth && process.env.MCP_ALLOW_UNAUTHENTICATED !== "true") {
+      throw new Error("The HTTP transport requires MCP_API_KEYS or MCP_JWT_ISSUER/MCP_JWT_AUDIENCE/MCP_JWT_JWKS_URI. Set MCP_ALLOW_UNAUTHENTICATED=true to run without authentication.");
+    }
+
+    const port = Number(getCliOption("port") || process.env.PORT || 3000);
+    const host = getCliOption("host") || process.env.MCP_HOST || "0.0.0.0";
+    const fileAccess = loadFileAccessOptions(transportType);
+    await startHttpServer(() => createServer(fileAccess), { port, host, auth });
+    console.error(`PowerPlatform MCP Server listening on http://${host}:${port}/mcp${auth ? "" : " without authentication"}`);
+  } else if (transportType === "stdio") {
+    const transport = new StdioServerTransport();
+    await createServer(loadFileAccessOptions(transportType)).connect(transport);
+    console.error("Initializing PowerPlatform MCP Server...");
+  } else {
+    throw new Error(`Unknown transport '${transportType}'. Use 'stdio' or 'http'.`);
+  }
 }
 
 main().catch((error) => {
@@ -0,0 +1,66 @@
+// Annotations Dataverse adds when a request sends Prefer: odata.include-annotations="*"
+const FORMATTED_VALUE = '@OData.Community.Display.V1.FormattedValue';
+const LOOKUP_LOGICAL_NAME = '@Microsoft.Dynamics.CRM.lookuplogicalname';
+
+// A lookup column with its target resolved
+export interface FormattedLookup {
+  id: string | null;
+  entity?: string; // Logical name of the referenced entity
+  name?: string; // Primary name of the referenced record
+}
+
+// A value shown alongside its formatted form (option label, currency, localized date)
+export interface FormattedValue {
+  value: any;
+  formatted: string;
+}
+
+/**
+ * Turn a record returned with annotations into a readable shape:
+ * - lookups ('_parentcustomerid_value') become 'parentcustomerid': { id, entity, name }, unless the record
+ *   also has a related record expanded under that name, in which case the lookup keeps its original key
+ * - values with a formatted form (choices, currency, dates) become { value, formatted }
+ * - expanded related records are formatted recursively
+ * Other annotations are dropped, except @odata.etag.
+ * @param record The record with annotations
+ * @returns The formatted record
+ */
+export function formatRecord(record: Record<string, any>): Record<string, any> {
+  const formatted: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    // Annotations are folded into the property they describe
+    if (key.includes('@') && key !== '@odata.etag') {
+      continue;
+    }
+
+    const lookupMatch = key.match(/^_(.+)_value$/);
+    if (lookupMatch) {
+      // A navigation property of the same name may be expanded, e.g. $expand=primarycontactid
+      const name = lookupMatch[1] in record ? key : lookupMatch[1];
+      formatted[name] = {
+        id: value,
+        entity: record[`${key}${LOOKUP_LOGICAL_NAME}`],
+        name: record[`${key}${FORMATTED_VALUE}`],
+      } as FormattedLookup;
+      continue;
+    }
+
+    const formattedValue = record[`${key}${FORMATTED_VALUE}`];
+    if (formattedValue !== undefined && value !== null) {
+      formatted[key] = { value, formatted: formattedValue } as FormattedValue;
+    } else if (Array.isArray(value)) {
+      formatted[key] = value.map(item => isRecord(item) ? formatRecord(item) : item);
+    } else if (isRecord(value)) {
+      formatted[key] = formatRecord(value);
+    } else {
+      formatted[key] = value;
+    }
+  }
+
+  return formatted;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,136 @@
+import type { PowerPlatformService, RelationshipHop } from './PowerPlatformService.js';
+
+// Entities nearly every entity relates to (ownership, auditing, currency). Traversing through them
+// connects everything in two steps, so they are only used as start or end points by default.
+const HUB_ENTITIES = ['systemuser', 'team', 'businessunit', 'organization', 'owner', 'transactioncurrency'];
+
+// Options for traversing the relationship graph
+export interface RelationshipGraphOptions {
+  includeSystemEntities?: boolean; // Also traverse through systemuser, team, businessunit and similar entities (default: false)
+}
+
+// The entities reachable from an entity and the relationships between them
+export interface RelationshipGraph {
+  rootEntity: string;
+  depth: number;
+  entities: string[]; // Logical names of all entities in the graph, including the root
+  hops: RelationshipHop[];
+}
+
+// A chain of relationships joining two entities
+export interface RelationshipPath {
+  entities: string[]; // Entities along the path, from start to end
+  hops: RelationshipHop[];
+  expand: string; // Nested $expand for querying the end entity from the start entity
+}
+
+/**
+ * Build the relationship graph around an entity up to a number of steps away
+ * @param service The service of the environment
+ * @param entityName The logical name of the entity to start at
+ * @param depth How many relationships away from the entity to go
+ * @param options Traversal options
+ * @returns The graph
+ */
+export async function buildRelationshipGraph(service: PowerPlatformService, entityName: string, depth: number, options: RelationshipGraphOptions = {}): Promise<RelationshipGraph> {
+  const visited = new Set([entityName]);
+  const hops: RelationshipHop[] = [];
+  let frontier = [entityName];
+
+  for (let level = 1; level <= depth && frontier.length; level++) {
+    const frontierHops = (await Promise.all(frontier.map(entity => service.getRelationshipHops(entity)))).flat();
+    const next: string[] = [];
+
+    for (const hop of frontierHops) {
+      hops.push(hop);
+      if (!visited.has(hop.to)) {
+        visited.add(hop.to);
+        if (isTraversable(hop.to, options)) {
+          next.push(hop.to);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return {
+    rootEntity: entityName,
+    depth,
+    entities: [...visited].sort(),
+    hops,
+  };
+}
+
+/**
+ * Find the shortest chains of relationships joining two entities
+ * @param service The service of the environment
+ * @param fromEntity The logical name of the entity to start at
+ * @param toEntity The logical name of the entity to reach
+ * @param maxDepth The longest path to look for
+ * @param maxPaths The maximum number of paths to return
+ * @param options Traversal options
+ * @returns All paths of the shortest length found (up to maxPaths), or an empty list when the entities are further apart than maxDepth
+ */
+export async function findRelationshipPaths(service: PowerPlatformService, fromEntity: string, toEntity: string, maxDepth: number, maxPaths: number, options: RelationshipGraphOptions = {}): Promise<RelationshipPath[]> {
+  if (fromEntity === toEntity) {
+    throw new Error('The start and end entities must be different');
+  }
+
+  // Breadth-first search recording, for each entity, every hop reaching it at the level it was first found
+  const levels = new Map<string, number>([[fromEntity, 0]]);
+  const incomingHops = new Map<string, RelationshipHop[]>();
+  let frontier = [fromEntity];
+
+  for (let level = 1; level <= maxDepth && frontier.length && !levels.has(toEntity); level++) {
+    const frontierHops = (await Promise.all(frontier.map(entity => service.getRelationshipHops(entity)))).flat();
+    const next: string[] = [];
+
+    for (const hop of frontierHops) {
+      const knownLevel = levels.get(hop.to);
+      if (knownLevel === undefined) {
+        levels.set(hop.to, level);
+        incomingHops.set(hop.to, [hop]);
+        if (hop.to !== toEntity && isTraversable(hop.to, options)) {
+          next.push(hop.to);
+        }
+      } else if (knownLevel === level) {
+        incomingHops.get(hop.to)!.push(hop);
+      }
+    }
+    frontier = next;
+  }
+
+  if (!levels.has(toEntity)) {
+    return [];
+  }
+
+  // Walk back from the end entity; every incoming hop comes from the previous level
+  const paths: RelationshipHop[][] = [];
+  const walkBack = (entity: string, suffix: RelationshipHop[]) => {
+    if (paths.length >= maxPaths) {
+      return;
+    }
+    if (entity === fromEntity) {
+      paths.push(suffix);
+      return;
+    }
+    for (const hop of incomingHops.get(entity) || []) {
+      walkBack(hop.from, [hop, ...suffix]);
+    }
+  };
+  walkBack(toEntity, []);
+
+  return paths.map(hops => ({
+    entities: [fromEntity, ...hops.map(hop => hop.to)],
+    hops,
+    expand: formatNestedExpand(hops),
+  }));
+}
+
+function isTraversable(entityName: string, options: RelationshipGraphOptions): boolean {
+  return options.includeSystemEntities === true || !HUB_ENTITIES.includes(entityName);
+}
+
+function formatNestedExpand(hops: RelationshipHop[]): string {
+  return hops.reduceRight((inner, hop) => inner ? `${hop.navigationProperty}($expand=${inner})` : hop.navigationProperty, '');
+}
@@ -0,0 +1,195 @@
+import fs from 'fs';
+import type { AttributeDetails, AttributeOption } from './PowerPlatformService.js';
+
+// A relationship of an entity, reduced to the properties that are compared
+export interface RelationshipSnapshot {
+  schemaName: string;
+  relationshipType: string; // 'OneToManyRelationship' or 'ManyToManyRelationship'
+  referencedEntity?: string;
+  referencedAttribute?: string;
+  referencingEntity?: string;
+  referencingAttribute?: string;
+  entity1LogicalName?: string;
+  entity2LogicalName?: string;
+}
+
+// The schema of an entity at a point in time, as compared by compareEntitySchemas.
+// Saved to and read from JSON files so live environments can be compared with earlier states.
+export interface EntitySchemaSnapshot {
+  entityName: string;
+  organizationUrl?: string;
+  capturedAt: string; // ISO timestamp
+  attributes: AttributeDetails[];
+  relationships: RelationshipSnapshot[];
+  optionSets: Record<string, AttributeOption[]>; // Global option sets used by the entity's choice columns
+}
+
+// A property whose value differs between the two schemas
+export interface PropertyChange {
+  property: string;
+  from: unknown;
+  to: unknown;
+}
+
+// Differences between the options of two versions of a choice column or global option set
+export interface OptionChanges {
+  added: AttributeOption[];
+  removed: AttributeOption[];
+  relabeled: { value: number, from: string, to: string }[];
+}
+
+// Changes to an attribute that exists in both schemas
+export interface AttributeChange {
+  logicalName: string;
+  typeChange?: { from: string, to: string };
+  propertyChanges: PropertyChange[];
+  optionChanges?: OptionChanges;
+}
+
+// Structured differences between two schemas of an entity; 'added' means only in the target
+export interface EntitySchemaDiff {
+  entityName: string;
+  identical: boolean;
+  attributes: { added: string[], removed: string[], changed: AttributeChange[] };
+  relationships: { added: string[], removed: string[], changed: { schemaName: string, propertyChanges: PropertyChange[] }[] };
+  optionSets: { added: string[], removed: string[], changed: ({ name: string } & OptionChanges)[] };
+}
+
+// Attribute properties compared besides the type and options
+const COMPARED_ATTRIBUTE_PROPERTIES: (keyof AttributeDetails)[] = [
+  'displayName',
+  'requiredLevel',
+  'maxLength',
+  'format',
+  'targets',
+  'optionSetName',
+  'isValidForCreate',
+  'isValidForUpdate',
+];
+
+/**
+ * Compare two schemas of an entity
+ * @param source The schema to compare from (e.g., dev)
+ * @param target The schema to compare to (e.g., prod)
+ * @returns The differences, from the source's point of view
+ */
+export function compareEntitySchemas(source: EntitySchemaSnapshot, target: EntitySchemaSnapshot): EntitySchemaDiff {
+  const attributes = compareByKey(source.attributes, target.attributes, attribute => attribute.logicalName, (from, to) => {
+    const change: AttributeChange = {
+      logicalName: from.logicalName,
+      propertyChanges: compareProperties(from, to, COMPARED_ATTRIBUTE_PROPERTIES),
+    };
+    if (from.attributeType !== to.attributeType) {
+      change.typeChange = { from: from.attributeType, to: to.attributeType };
+    }
+    // Options of global option sets are compared once under optionSets
+    if (!from.optionSetName && !to.optionSetName) {
+      const optionChanges = compareOptions(from.options || [], to.options || []);
+      if (optionChanges) {
+        change.optionChanges = optionChanges;
+      }
+    }
+    return change.typeChange || change.propertyChanges.length || change.optionChanges ? change : null;
+  });
+
+  const relationshipProperties: (keyof RelationshipSnapshot)[] = [
+    'relationshipType',
+    'referencedEntity',
+    'referencedAttribute',
+    'referencingEntity',
+    'referencingAttribute',
+    'entity1LogicalName',
+    'entity2LogicalName',
+  ];
+  const relationships = compareByKey(source.relationships, target.relationships, relationship => relationship.schemaName, (from, to) => {
+    const propertyChanges = compareProperties(from, to, relationshipProperties);
+    return propertyChanges.length ? { schemaName: from.schemaName, propertyChanges } : null;
+  });
+
+  const toEntries = (optionSets: Record<string, AttributeOption[]>) => Object.entries(optionSets).map(([name, options]) => ({ name, options }));
+  const optionSets = compareByKey(toEntries(source.optionSets), toEntries(target.optionSets), optionSet => optionSet.name, (from, to) => {
+    const optionChanges = compareOptions(from.options, to.options);
+    return optionChanges ? { name: from.name, ...optionChanges } : null;
+  });
+
+  const identical = [attributes, relationships, optionSets].every(diff => !diff.added.length && !diff.removed.length && !diff.changed.length);
+
+  return {
+    entityName: target.entityName,
+    identical,
+    attributes,
+    relationships,
+    optionSets,
+  };
+}
+
+/**
+ * Read an entity schema snapshot from a JSON file
+ * @param snapshotPath Path of the snapshot file
+ */
+export async function readEntitySchemaSnapshot(snapshotPath: string): Promise<EntitySchemaSnapshot> {
+  let snapshot: any;
+  try {
+    snapshot = JSON.parse(await fs.promises.readFile(snapshotPath, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Failed to read schema snapshot '${snapshotPath}': ${error.message}`);
+  }
+
+  if (typeof snapshot?.entityName !== 'string' || !Array.isArray(snapshot.attributes) || !Array.isArray(snapshot.relationships)) {
+    throw new Error(`Schema snapshot '${snapshotPath}' must contain entityName, attributes and relationships`);
+  }
+  return { ...snapshot, optionSets: snapshot.optionSets || {} };
+}
+
+/**
+ * Write an entity schema snapshot to a JSON file
+ * @param snapshot The snapshot
+ * @param snapshotPath Path of the snapshot file
+ */
+export async function writeEntitySchemaSnapshot(snapshot: EntitySchemaSnapshot, snapshotPath: string): Promise<void> {
+  await fs.promises.writeFile(snapshotPath, JSON.stringify(snapshot, null, 2) + '\n');
+}
+
+/**
+ * Match two lists by key and report the keys only in one of them and the changes of matched items
+ */
+function compareByKey<T, C>(source: T[], target: T[], key: (item: T) => string, compare: (from: T, to: T) => C | null): { added: string[], removed: string[], changed: C[] } {
+  const sourceItems = new Map(source.map(item => [key(item), item]));
+  const targetItems = new Map(target.map(item => [key(item), item]));
+
+  const changed: C[] = [];
+  for (const [name, from] of sourceItems) {
+    const to = targetItems.get(name);
+    const change = to ? compare(from, to) : null;
+    if (change) {
+      changed.push(change);
+    }
+  }
+
+  return {
+    added: [...targetItems.keys()].filter(name => !sourceItems.has(name)).sort(),
+    removed: [...sourceItems.keys()].filter(name => !targetItems.has(name)).sort(),
+    changed,
+  };
+}
+
+function compareProperties<T>(from: T, to: T, properties: (keyof T)[]): PropertyChange[] {
+  return properties
+    .filter(property => JSON.stringify(from[property]) !== JSON.stringify(to[property]))
+    .map(property => ({ property: String(property), from: from[property], to: to[property] }));
+}
+
+function compareOptions(from: AttributeOption[], to: AttributeOption[]): OptionChanges | null {
+  const fromByValue = new Map(from.map(option => [option.value, option]));
+  const toByValue = new Map(to.map(option => [option.value, option]));
+
+  const changes: OptionChanges = {
+    added: to.filter(option => !fromByValue.has(option.value)),
+    removed: from.filter(option => !toByValue.has(option.value)),
+    relabeled: from
+      .filter(option => toByValue.has(option.value) && toByValue.get(option.value)!.label !== option.label)
+      .map(option => ({ value: option.value, from: option.label, to: toByValue.get(option.value)!.label })),
+  };
+
+  return changes.added.length || changes.removed.length || changes.relabeled.length ? changes : null;
+}
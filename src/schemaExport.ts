@@ -0,0 +1,280 @@
+import fs from 'fs';
+import path from 'path';
+import type { AttributeDetails, AttributeOption, PowerPlatformService } from './PowerPlatformService.js';
+import type { EntitySchemaSnapshot } from './schemaDiff.js';
+
+// Output formats of exportSchema
+export const SCHEMA_EXPORT_FORMATS = ['json', 'markdown', 'mermaid', 'typescript'] as const;
+export type SchemaExportFormat = typeof SCHEMA_EXPORT_FORMATS[number];
+
+// What to export and where
+export interface SchemaExportOptions {
+  entityNames?: string[]; // Logical names of the entities to export
+  solutionUniqueName?: string; // Export the entities of this solution (in addition to entityNames)
+  outputDirectory: string;
+  formats?: SchemaExportFormat[]; // Default: all formats
+}
+
+// Result of exportSchema
+export interface SchemaExportResult {
+  entityNames: string[];
+  files: string[]; // Files written, relative to the output directory
+}
+
+/**
+ * Export the schema of a set of entities to files:
+ * - json/<entity>.json: schema snapshots, usable with compare-entity-schema
+ * - markdown/<entity>.md: data dictionaries
+ * - erDiagram.mmd: a Mermaid erDiagram of the relationships between the exported entities
+ * - entities.ts: TypeScript interfaces for the entities, with choice columns as enums
+ * @param service The service of the environment to export from
+ * @param options What to export and where
+ * @returns The exported entities and the files written
+ */
+export async function exportSchema(service: PowerPlatformService, options: SchemaExportOptions): Promise<SchemaExportResult> {
+  const entityNames = new Set(options.entityNames || []);
+  if (options.solutionUniqueName) {
+    const solutionEntities = await service.listEntities({ solutionUniqueName: options.solutionUniqueName });
+    solutionEntities.forEach(entity => entityNames.add(entity.logicalName));
+  }
+  if (entityNames.size === 0) {
+    throw new Error(options.solutionUniqueName
+      ? `Solution '${options.solutionUniqueName}' contains no entities`
+      : 'Specify the entities or the solution to export');
+  }
+
+  const snapshots: EntitySchemaSnapshot[] = [];
+  for (const entityName of [...entityNames].sort()) {
+    snapshots.push(await service.getEntitySchemaSnapshot(entityName));
+  }
+
+  const formats = options.formats?.length ? options.formats : [...SCHEMA_EXPORT_FORMATS];
+  const files: string[] = [];
+  const writeFile = async (relativePath: string, content: string) => {
+    const target = path.join(options.outputDirectory, relativePath);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(target, content);
+    files.push(relativePath);
+  };
+
+  for (const snapshot of snapshots) {
+    if (formats.includes('json')) {
+      await writeFile(`json/${snapshot.entityName}.json`, JSON.stringify(snapshot, null, 2) + '\n');
+    }
+    if (formats.includes('markdown')) {
+      await writeFile(`markdown/${snapshot.entityName}.md`, formatSchemaMarkdown(snapshot));
+    }
+  }
+  if (formats.includes('mermaid')) {
+    await writeFile('erDiagram.mmd', formatSchemaMermaid(snapshots));
+  }
+  if (formats.includes('typescript')) {
+    await writeFile('entities.ts', formatSchemaTypeScript(snapshots));
+  }
+
+  return { entityNames: snapshots.map(snapshot => snapshot.entityName), files };
+}
+
+/**
+ * Format the schema of an entity as a Markdown data dictionary
+ * @param snapshot The entity schema
+ * @returns The Markdown document
+ */
+export function formatSchemaMarkdown(snapshot: EntitySchemaSnapshot): string {
+  const lines: string[] = [`# ${snapshot.entityName}`, ''];
+  if (snapshot.organizationUrl) {
+    lines.push(`Exported from ${snapshot.organizationUrl} on ${snapshot.capturedAt}.`, '');
+  }
+
+  lines.push('## Attributes', '');
+  lines.push('| Logical name | Display name | Type | Required | Details |');
+  lines.push('| --- | --- | --- | --- | --- |');
+  for (const attribute of snapshot.attributes) {
+    lines.push(markdownRow([
+      attribute.logicalName,
+      attribute.displayName,
+      attribute.attributeType,
+      attribute.requiredLevel,
+      describeAttribute(attribute),
+    ]));
+  }
+
+  const choiceAttributes = snapshot.attributes.filter(attribute => attribute.options?.length && attribute.attributeType !== 'Boolean');
+  if (choiceAttributes.length) {
+    lines.push('', '## Choices');
+    for (const attribute of choiceAttributes) {
+      const options = attribute.optionSetName ? snapshot.optionSets[attribute.optionSetName] || attribute.options! : attribute.options!;
+      lines.push('', `### ${attribute.logicalName} (${attribute.displayName})`, '');
+      if (attribute.optionSetName) {
+        lines.push(`Global option set \`${attribute.optionSetName}\`.`, '');
+      }
+      lines.push('| Value | Label |', '| --- | --- |');
+      options.forEach(option => lines.push(markdownRow([String(option.value), option.label])));
+    }
+  }
+
+  if (snapshot.relationships.length) {
+    lines.push('', '## Relationships', '');
+    lines.push('| Schema name | Type | Entities | Lookup |');
+    lines.push('| --- | --- | --- | --- |');
+    for (const relationship of snapshot.relationships) {
+      const manyToMany = relationship.relationshipType === 'ManyToManyRelationship';
+      lines.push(markdownRow([
+        relationship.schemaName,
+        manyToMany ? 'N:N' : '1:N',
+        manyToMany
+          ? `${relationship.entity1LogicalName} ↔ ${relationship.entity2LogicalName}`
+          : `${relationship.referencedEntity} → ${relationship.referencingEntity}`,
+        manyToMany ? '' : `${relationship.referencingEntity}.${relationship.referencingAttribute}`,
+      ]));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Format the relationships between entities as a Mermaid erDiagram.
+ * Entities list their primary key, primary name and lookup columns; relationships to
+ * entities outside the set are left out to keep the diagram readable.
+ * @param snapshots The entity schemas
+ * @returns The Mermaid diagram
+ */
+export function formatSchemaMermaid(snapshots: EntitySchemaSnapshot[]): string {
+  const entityNames = new Set(snapshots.map(snapshot => snapshot.entityName));
+  const lines: string[] = ['erDiagram'];
+
+  for (const snapshot of snapshots) {
+    lines.push(`    ${snapshot.entityName} {`);
+    for (const attribute of snapshot.attributes) {
+      const key = attribute.isPrimaryId ? ' PK' : attribute.targets?.length ? ' FK' : '';
+      if (key || attribute.isPrimaryName) {
+        lines.push(`        ${attribute.attributeType.toLowerCase()} ${attribute.logicalName}${key}`);
+      }
+    }
+    lines.push('    }');
+  }
+
+  // Many-to-many relationships appear in the snapshots of both entities
+  const seen = new Set<string>();
+  for (const relationship of snapshots.flatMap(snapshot => snapshot.relationships)) {
+    if (seen.has(relationship.schemaName)) {
+      continue;
+    }
+    seen.add(relationship.schemaName);
+
+    if (relationship.relationshipType === 'ManyToManyRelationship') {
+      if (entityNames.has(relationship.entity1LogicalName!) && entityNames.has(relationship.entity2LogicalName!)) {
+        lines.push(`    ${relationship.entity1LogicalName} }o--o{ ${relationship.entity2LogicalName} : "${relationship.schemaName}"`);
+      }
+    } else if (entityNames.has(relationship.referencedEntity!) && entityNames.has(relationship.referencingEntity!)) {
+      lines.push(`    ${relationship.referencedEntity} ||--o{ ${relationship.referencingEntity} : "${relationship.referencingAttribute}"`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Format entities as TypeScript interfaces matching Web API records. Choice columns get enums,
+ * shared by all columns using the same global option set; lookups use the _<name>_value property.
+ * @param snapshots The entity schemas
+ * @returns The TypeScript source
+ */
+export function formatSchemaTypeScript(snapshots: EntitySchemaSnapshot[]): string {
+  const enums = new Map<string, AttributeOption[]>();
+  const interfaces: string[] = [];
+
+  for (const snapshot of snapshots) {
+    const properties: string[] = [];
+    for (const attribute of snapshot.attributes) {
+      let propertyName = attribute.logicalName;
+      let type = TYPESCRIPT_TYPES[attribute.attributeType] || 'unknown';
+
+      if (LOOKUP_TYPES.includes(attribute.attributeType)) {
+        propertyName = `_${attribute.logicalName}_value`;
+      } else if (ENUM_TYPES.includes(attribute.attributeType) && attribute.options?.length) {
+        type = attribute.optionSetName
+          ? toPascalCase(attribute.optionSetName)
+          : `${toPascalCase(snapshot.entityName)}${toPascalCase(attribute.logicalName)}`;
+        enums.set(type, (attribute.optionSetName && snapshot.optionSets[attribute.optionSetName]) || attribute.options);
+      }
+
+      const targets = attribute.targets?.length ? ` (${attribute.targets.join(', ')})` : '';
+      properties.push(`  ${propertyName}?: ${type} | null; // ${attribute.displayName}${targets}`);
+    }
+    interfaces.push(`export interface ${toPascalCase(snapshot.entityName)} {\n${properties.join('\n')}\n}`);
+  }
+
+  const enumDeclarations = [...enums.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, options]) => {
+      const usedNames = new Set<string>();
+      const members = options.map(option => {
+        let memberName = toPascalCase(option.label) || `Value${option.value}`;
+        if (/^\d/.test(memberName)) {
+          memberName = `_${memberName}`;
+        }
+        if (usedNames.has(memberName)) {
+          memberName = `${memberName}_${option.value}`;
+        }
+        usedNames.add(memberName);
+        return `  ${memberName} = ${option.value},`;
+      });
+      return `export enum ${name} {\n${members.join('\n')}\n}`;
+    });
+
+  return [
+    '// Generated by powerplatform-mcp export-schema',
+    ...enumDeclarations,
+    ...interfaces,
+  ].join('\n\n') + '\n';
+}
+
+// TypeScript types of Web API values by attribute type
+const TYPESCRIPT_TYPES: Record<string, string> = {
+  String: 'string',
+  Memo: 'string',
+  EntityName: 'string',
+  Uniqueidentifier: 'string',
+  DateTime: 'string', // ISO 8601
+  MultiSelectPicklist: 'string', // Comma-separated option values
+  Lookup: 'string',
+  Customer: 'string',
+  Owner: 'string',
+  Integer: 'number',
+  BigInt: 'number',
+  Decimal: 'number',
+  Double: 'number',
+  Money: 'number',
+  Picklist: 'number',
+  State: 'number',
+  Status: 'number',
+  Boolean: 'boolean',
+};
+
+const LOOKUP_TYPES = ['Lookup', 'Customer', 'Owner'];
+const ENUM_TYPES = ['Picklist', 'State', 'Status'];
+
+function describeAttribute(attribute: AttributeDetails): string {
+  const details: string[] = [];
+  if (attribute.isPrimaryId) details.push('Primary key');
+  if (attribute.isPrimaryName) details.push('Primary name');
+  if (attribute.maxLength) details.push(`Max length ${attribute.maxLength}`);
+  if (attribute.format) details.push(`Format ${attribute.format}`);
+  if (attribute.targets?.length) details.push(`Targets ${attribute.targets.join(', ')}`);
+  if (attribute.description) details.push(attribute.description);
+  return details.join('; ');
+}
+
+function markdownRow(cells: string[]): string {
+  return `| ${cells.map(cell => (cell || '').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')).join(' | ')} |`;
+}
+
+function toPascalCase(value: string): string {
+  return value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+}
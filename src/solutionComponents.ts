@@ -0,0 +1,59 @@
+// Names of the solution component types (the componenttype choice of solutioncomponent)
+export const SOLUTION_COMPONENT_TYPES: Record<number, string> = {
+  1: 'Entity',
+  2: 'Attribute',
+  3: 'Relationship',
+  9: 'Option Set',
+  10: 'Entity Relationship',
+  14: 'Entity Key',
+  20: 'Role',
+  26: 'View',
+  29: 'Workflow',
+  31: 'Report',
+  59: 'Chart',
+  60: 'Form',
+  61: 'Web Resource',
+  62: 'Site Map',
+  63: 'Connection Role',
+  65: 'Hierarchy Rule',
+  66: 'Custom Control',
+  70: 'Field Security Profile',
+  80: 'Model-driven App',
+  90: 'Plugin Type',
+  91: 'Plugin Assembly',
+  92: 'Plugin Step',
+  93: 'Plugin Step Image',
+  95: 'Service Endpoint',
+  150: 'Routing Rule',
+  161: 'Mobile Offline Profile',
+  300: 'Canvas App',
+  371: 'Connector',
+  380: 'Environment Variable Definition',
+  381: 'Environment Variable Value',
+};
+
+// Where to look up the display name of a component, by component type.
+// Entities are resolved from entity metadata instead.
+export const SOLUTION_COMPONENT_NAME_SOURCES: Record<number, { entitySetName: string, idAttribute: string, nameAttribute: string }> = {
+  20: { entitySetName: 'roles', idAttribute: 'roleid', nameAttribute: 'name' },
+  26: { entitySetName: 'savedqueries', idAttribute: 'savedqueryid', nameAttribute: 'name' },
+  29: { entitySetName: 'workflows', idAttribute: 'workflowid', nameAttribute: 'name' },
+  59: { entitySetName: 'savedqueryvisualizations', idAttribute: 'savedqueryvisualizationid', nameAttribute: 'name' },
+  60: { entitySetName: 'systemforms', idAttribute: 'formid', nameAttribute: 'name' },
+  61: { entitySetName: 'webresourceset', idAttribute: 'webresourceid', nameAttribute: 'name' },
+  80: { entitySetName: 'appmodules', idAttribute: 'appmoduleid', nameAttribute: 'name' },
+  90: { entitySetName: 'plugintypes', idAttribute: 'plugintypeid', nameAttribute: 'typename' },
+  91: { entitySetName: 'pluginassemblies', idAttribute: 'pluginassemblyid', nameAttribute: 'name' },
+  92: { entitySetName: 'sdkmessageprocessingsteps', idAttribute: 'sdkmessageprocessingstepid', nameAttribute: 'name' },
+  300: { entitySetName: 'canvasapps', idAttribute: 'canvasappid', nameAttribute: 'displayname' },
+  380: { entitySetName: 'environmentvariabledefinitions', idAttribute: 'environmentvariabledefinitionid', nameAttribute: 'schemaname' },
+};
+
+/**
+ * Get the name of a solution component type
+ * @param componentType The componenttype value
+ * @returns The type name, or 'Component type <n>' for types without a known name
+ */
+export function getSolutionComponentTypeName(componentType: number): string {
+  return SOLUTION_COMPONENT_TYPES[componentType] || `Component type ${componentType}`;
+}
@@ -0,0 +1,154 @@
+import fs from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+import { FileAccessOptions, resolveToolPath } from './fileAccess.js';
+
+// Identity of a solution as declared in the solution.xml of its package
+export interface SolutionManifest {
+  uniqueName: string;
+  version: string;
+  managed: boolean;
+  publisherUniqueName?: string;
+  publisherPrefix?: string;
+}
+
+// Result of saving an exported solution package
+export interface SavedSolutionPackage {
+  zipPath: string;
+  manifest: SolutionManifest;
+  unpackedDirectory?: string; // Set when the package was unpacked
+  files: string[]; // Files written to the unpacked directory, relative to it
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  parseTagValue: false,
+});
+
+/**
+ * Write an exported solution package to disk and optionally unpack it next to the zip
+ * @param zip The solution package
+ * @param zipPath Where to write the zip
+ * @param unpack Whether to unpack the package into a folder named after the zip (without .zip)
+ * @param fileAccess The file access settings the unpacked folder must satisfy, like the zip path itself
+ * @returns What was written
+ */
+export async function saveSolutionPackage(zip: Buffer, zipPath: string, unpack: boolean, fileAccess: FileAccessOptions = {}): Promise<SavedSolutionPackage> {
+  const archive = await loadSolutionPackage(zip);
+  const manifest = parseSolutionManifest(await archive.file('solution.xml')!.async('string'));
+
+  // The folder is derived from the zip path, so it is checked on its own: it may be a link leading elsewhere
+  const unpackedDirectory = unpack
+    ? resolveToolPath(zipPath.toLowerCase().endsWith('.zip') ? zipPath.slice(0, -'.zip'.length) : `${zipPath}_unpacked`, fileAccess)
+    : undefined;
+
+  await fs.promises.mkdir(path.dirname(path.resolve(zipPath)), { recursive: true });
+  await fs.promises.writeFile(zipPath, zip);
+
+  if (!unpackedDirectory) {
+    return { zipPath, manifest, files: [] };
+  }
+
+  const files = await unpackSolutionPackage(archive, unpackedDirectory);
+  return { zipPath, manifest, unpackedDirectory, files };
+}
+
+/**
+ * Read a solution package from disk and check that it is one
+ * @param zipPath Path of the zip
+ * @returns The package contents and its manifest
+ */
+export async function readSolutionPackage(zipPath: string): Promise<{ zip: Buffer, manifest: SolutionManifest }> {
+  const zip = await fs.promises.readFile(zipPath);
+  const archive = await loadSolutionPackage(zip);
+  const manifest = parseSolutionManifest(await archive.file('solution.xml')!.async('string'));
+  return { zip, manifest };
+}
+
+/**
+ * Extract all files of a solution package into a directory. customizations.xml is also split into
+ * one file per entity under Entities/, so entity definitions can be read and diffed on their own.
+ * @param archive The loaded solution package
+ * @param directory The target directory
+ * @returns The files written, relative to the directory
+ */
+export async function unpackSolutionPackage(archive: JSZip, directory: string): Promise<string[]> {
+  const root = path.resolve(directory);
+  const files: string[] = [];
+
+  const writeFile = async (relativePath: string, content: Buffer | string) => {
+    const target = path.resolve(root, relativePath);
+    // Zip entries may contain '..'; never write outside the target directory
+    if (!target.startsWith(root + path.sep)) {
+      throw new Error(`Solution package entry '${relativePath}' points outside of the target directory`);
+    }
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(target, content);
+    files.push(path.relative(root, target).split(path.sep).join('/'));
+  };
+
+  for (const entry of Object.values(archive.files)) {
+    if (!entry.dir) {
+      await writeFile(entry.name, await entry.async('nodebuffer'));
+    }
+  }
+
+  const customizations = await archive.file('customizations.xml')!.async('string');
+  for (const { name, xml } of splitCustomizationEntities(customizations)) {
+    await writeFile(`Entities/${name}.xml`, xml + '\n');
+  }
+
+  return files.sort();
+}
+
+/**
+ * Read the identity of a solution from its solution.xml
+ * @param solutionXml The content of solution.xml
+ * @returns The solution manifest
+ */
+export function parseSolutionManifest(solutionXml: string): SolutionManifest {
+  const manifest = parser.parse(solutionXml)?.ImportExportXml?.SolutionManifest;
+  if (!manifest?.UniqueName) {
+    throw new Error('solution.xml does not contain a SolutionManifest with a UniqueName');
+  }
+
+  return {
+    uniqueName: String(manifest.UniqueName),
+    version: String(manifest.Version || ''),
+    // 0 is unmanaged, 1 managed, 2 both (exported by the packager)
+    managed: String(manifest.Managed) === '1',
+    publisherUniqueName: manifest.Publisher?.UniqueName ? String(manifest.Publisher.UniqueName) : undefined,
+    publisherPrefix: manifest.Publisher?.CustomizationPrefix ? String(manifest.Publisher.CustomizationPrefix) : undefined,
+  };
+}
+
+/**
+ * Split the <Entity> elements out of customizations.xml
+ * @param customizationsXml The content of customizations.xml
+ * @returns The XML of each entity with its schema name
+ */
+export function splitCustomizationEntities(customizationsXml: string): { name: string, xml: string }[] {
+  // <Entity> only occurs as a child of <Entities>; the nested entity definition is lowercase <entity>
+  const entities = customizationsXml.match(/<Entity>[\s\S]*?<\/Entity>/g) || [];
+
+  return entities.map((xml, index) => {
+    const name = xml.match(/<Name\b[^>]*>([^<]+)<\/Name>/)?.[1]?.trim() || `Entity${index + 1}`;
+    return { name: name.replace(/[^\w.-]/g, '_'), xml };
+  });
+}
+
+async function loadSolutionPackage(zip: Buffer): Promise<JSZip> {
+  let archive: JSZip;
+  try {
+    archive = await JSZip.loadAsync(zip);
+  } catch (error: any) {
+    throw new Error(`Not a valid zip file: ${error.message}`);
+  }
+
+  if (!archive.file('solution.xml') || !archive.file('customizations.xml')) {
+    throw new Error('Not a solution package: solution.xml and customizations.xml are missing');
+  }
+  return archive;
+}
@@ -0,0 +1,38 @@
+/**
+ * Find the candidates most similar to a name, for "did you mean" suggestions
+ * @param name The name that wasn't found
+ * @param candidates The valid names
+ * @param maxResults Maximum number of suggestions (default: 5)
+ * @returns The closest candidates, most similar first
+ */
+export function findSimilarNames(name: string, candidates: Iterable<string>, maxResults: number = 5): string[] {
+  const target = name.toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(target.length / 3));
+
+  return [...new Set(candidates)]
+    .map(candidate => {
+      const lower = candidate.toLowerCase();
+      // Substring matches rank just after exact edits of one character
+      const distance = lower.includes(target) || target.includes(lower) ? 1.5 : levenshteinDistance(target, lower);
+      return { candidate, distance };
+    })
+    .filter(match => match.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, maxResults)
+    .map(match => match.candidate);
+}
+
+function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
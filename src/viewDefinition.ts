@@ -0,0 +1,105 @@
+import { XMLParser } from 'fast-xml-parser';
+
+// Readable summary of a view: the columns it shows and the query behind them
+export interface ViewDefinition {
+  entityName: string;
+  columns: { name: string, width?: number }[]; // In display order; linked columns are named '<alias>.<attribute>'
+  filter?: string; // e.g. "statecode eq 0 and (ownerid eq-userid or ownerid eq-useroruserteams)"
+  orders: { attribute: string, descending: boolean }[];
+  linkedEntities: { name: string, alias?: string, from: string, to: string, linkType: string }[];
+}
+
+// Attributes are prefixed because <condition value="..."> and <condition><value> would collide otherwise
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@',
+  parseAttributeValue: false,
+  parseTagValue: false,
+  isArray: (name, _jPath, _isLeafNode, isAttribute) => !isAttribute && ['attribute', 'link-entity', 'filter', 'condition', 'order', 'value', 'row', 'cell'].includes(name),
+});
+
+/**
+ * Summarize a view from its FetchXML query and layout XML
+ * @param fetchXml The fetchxml column of the view
+ * @param layoutXml The layoutxml column of the view; without it the columns come from the query
+ * @returns The view definition
+ */
+export function parseViewDefinition(fetchXml: string, layoutXml?: string): ViewDefinition {
+  const entity = parser.parse(fetchXml)?.fetch?.entity;
+  if (!entity?.['@name']) {
+    throw new Error('View FetchXML must contain an <entity> element with a name attribute');
+  }
+
+  const conditions: string[] = [];
+  const rootFilter = formatFilters(entity.filter, '');
+  if (rootFilter) {
+    conditions.push(rootFilter);
+  }
+
+  const linkedEntities: ViewDefinition['linkedEntities'] = [];
+  const collectLinks = (parent: any) => {
+    for (const link of parent['link-entity'] || []) {
+      linkedEntities.push({
+        name: link['@name'],
+        alias: link['@alias'],
+        from: link['@from'],
+        to: link['@to'],
+        linkType: link['@link-type'] || 'inner',
+      });
+      const linkFilter = formatFilters(link.filter, `${link['@alias'] || link['@name']}.`);
+      if (linkFilter) {
+        conditions.push(linkFilter);
+      }
+      collectLinks(link);
+    }
+  };
+  collectLinks(entity);
+
+  const layoutCells = layoutXml ? parser.parse(layoutXml)?.grid?.row?.[0]?.cell || [] : [];
+  const columns = layoutCells.length
+    ? layoutCells.map((cell: any) => ({ name: cell['@name'], width: cell['@width'] ? Number(cell['@width']) : undefined }))
+    : (entity.attribute || []).map((attribute: any) => ({ name: attribute['@name'] }));
+
+  return {
+    entityName: entity['@name'],
+    columns,
+    filter: conditions.length ? conditions.map(condition => conditions.length > 1 ? wrap(condition) : condition).join(' and ') : undefined,
+    orders: (entity.order || []).map((order: any) => ({
+      attribute: order['@alias'] || order['@attribute'],
+      descending: order['@descending'] === 'true',
+    })),
+    linkedEntities,
+  };
+}
+
+function formatFilters(filters: any[] | undefined, prefix: string): string | undefined {
+  // Sibling <filter> elements are combined with and
+  const formatted = (filters || []).map(filter => formatFilter(filter, prefix)).filter((part): part is string => !!part);
+  return formatted.length ? formatted.map(part => formatted.length > 1 ? wrap(part) : part).join(' and ') : undefined;
+}
+
+function formatFilter(filter: any, prefix: string): string | undefined {
+  const parts = [
+    ...(filter.condition || []).map((condition: any) => formatCondition(condition, prefix)),
+    ...(filter.filter || []).map((nested: any) => formatFilter(nested, prefix)).filter(Boolean).map((part: string) => wrap(part)),
+  ];
+  return parts.length ? parts.join(` ${filter['@type'] || 'and'} `) : undefined;
+}
+
+function formatCondition(condition: any, prefix: string): string {
+  const attribute = `${condition['@entityname'] ? `${condition['@entityname']}.` : prefix}${condition['@attribute']}`;
+  // <value> elements with attributes, such as uiname on lookups, parse into objects
+  const values: string[] = (condition.value || []).map((value: any) => typeof value === 'object' ? value['#text'] : String(value));
+
+  if (condition['@value'] !== undefined) {
+    return `${attribute} ${condition['@operator']} ${condition['@value']}`;
+  }
+  if (values.length) {
+    return `${attribute} ${condition['@operator']} (${values.join(', ')})`;
+  }
+  return `${attribute} ${condition['@operator']}`;
+}
+
+function wrap(expression: string): string {
+  return expression.includes(' and ') || expression.includes(' or ') ? `(${expression})` : expression;
+}
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ConcurrencyLimiter } from '../src/ConcurrencyLimiter.js';
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('ConcurrencyLimiter', () => {
+  it('queues tasks beyond the limit and starts them in order', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const started: number[] = [];
+    let active = 0;
+    let maxActive = 0;
+
+    const results = await Promise.all([0, 1, 2, 3, 4].map(index => limiter.run(async () => {
+      started.push(index);
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await delay(10);
+      active--;
+      return index * 10;
+    })));
+
+    assert.deepEqual(results, [0, 10, 20, 30, 40]);
+    assert.deepEqual(started, [0, 1, 2, 3, 4]);
+    assert.equal(maxActive, 2);
+  });
+
+  it('frees the slot of a failed task', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    await assert.rejects(limiter.run(async () => { throw new Error('failed'); }), /failed/);
+    assert.equal(await limiter.run(async () => 'next'), 'next');
+  });
+
+  it('rejects limits that would never free a slot', () => {
+    for (const limit of [NaN, 0, -1, 1.5]) {
+      assert.throws(() => new ConcurrencyLimiter(limit), /at least 1/);
+    }
+  });
+});
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { MetadataCache } from '../src/MetadataCache.js';
+
+const ORGANIZATION_URL = 'https://contoso.crm.dynamics.com';
+
+describe('MetadataCache', () => {
+  let root: string;
+
+  before(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'powerplatform-mcp-'));
+  });
+
+  after(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  it('writes a burst of cache misses to the persistence file once they are flushed', async () => {
+    const cachePath = path.join(root, 'burst', 'metadata.json');
+    const cache = new MetadataCache(ORGANIZATION_URL, 3600, cachePath);
+
+    for (const name of ['account', 'contact', 'lead']) {
+      await cache.getOrFetch(`EntityDefinitions(LogicalName='${name}')`, async () => ({ LogicalName: name }));
+    }
+    assert.equal(fs.existsSync(cachePath), false);
+
+    await cache.flush();
+    const file = JSON.parse(await fs.promises.readFile(cachePath, 'utf8'));
+    assert.equal(file.organizationUrl, ORGANIZATION_URL);
+    assert.deepEqual(Object.keys(file.entries).sort(), [
+      "EntityDefinitions(LogicalName='account')",
+      "EntityDefinitions(LogicalName='contact')",
+      "EntityDefinitions(LogicalName='lead')",
+    ]);
+    assert.equal(fs.existsSync(`${cachePath}.tmp`), false);
+  });
+
+  it('loads persisted entries instead of fetching them again', async () => {
+    const cachePath = path.join(root, 'reload', 'metadata.json');
+    const first = new MetadataCache(ORGANIZATION_URL, 3600, cachePath);
+    await first.getOrFetch('EntityDefinitions', async () => ({ value: ['account'] }));
+    await first.flush();
+
+    const second = new MetadataCache(ORGANIZATION_URL, 3600, cachePath);
+    const value = await second.getOrFetch('EntityDefinitions', async () => assert.fail('fetched a persisted entry'));
+    assert.deepEqual(value, { value: ['account'] });
+  });
+
+  it('persists removals', async () => {
+    const cachePath = path.join(root, 'clear', 'metadata.json');
+    const cache = new MetadataCache(ORGANIZATION_URL, 3600, cachePath);
+    await cache.getOrFetch('a', async () => 1);
+    await cache.getOrFetch('b', async () => 2);
+    assert.equal(cache.clear(key => key === 'a'), 1);
+    await cache.flush();
+
+    const file = JSON.parse(await fs.promises.readFile(cachePath, 'utf8'));
+    assert.deepEqual(Object.keys(file.entries), ['b']);
+  });
+});
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { loadFileAccessOptions, resolveToolPath } from '../src/fileAccess.js';
+
+describe('tool file access', () => {
+  let root: string;
+  let baseDirectory: string;
+
+  before(async () => {
+    root = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'powerplatform-mcp-')));
+    baseDirectory = path.join(root, 'files');
+    await fs.promises.mkdir(path.join(baseDirectory, 'snapshots'), { recursive: true });
+    await fs.promises.mkdir(path.join(root, 'secrets'));
+    await fs.promises.symlink(path.join(root, 'secrets'), path.join(baseDirectory, 'link'));
+  });
+
+  after(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    delete process.env.POWERPLATFORM_FILES_DIRECTORY;
+  });
+
+  it('leaves paths unrestricted over stdio without a files directory', () => {
+    const options = loadFileAccessOptions('stdio');
+    assert.equal(resolveToolPath('/etc/hosts', options), '/etc/hosts');
+  });
+
+  it('disables file tools over HTTP without a files directory', () => {
+    const options = loadFileAccessOptions('http');
+    assert.throws(() => resolveToolPath('snapshot.json', options), /disabled over the HTTP transport/);
+  });
+
+  it('resolves paths relative to the files directory', () => {
+    process.env.POWERPLATFORM_FILES_DIRECTORY = baseDirectory;
+    const options = loadFileAccessOptions('http');
+    assert.equal(resolveToolPath('snapshots/account.json', options), path.join(baseDirectory, 'snapshots', 'account.json'));
+    assert.equal(resolveToolPath(path.join(baseDirectory, 'new', 'solution.zip'), options), path.join(baseDirectory, 'new', 'solution.zip'));
+  });
+
+  it('rejects paths outside of the files directory', () => {
+    process.env.POWERPLATFORM_FILES_DIRECTORY = baseDirectory;
+    const options = loadFileAccessOptions('http');
+    for (const requestedPath of ['../secrets/key.pem', '/etc/passwd', `${baseDirectory}-other/file.json`, 'link/key.pem', 'link/new/file.json']) {
+      assert.throws(() => resolveToolPath(requestedPath, options), /outside of the files directory/, requestedPath);
+    }
+  });
+
+  it('rejects a files directory that does not exist', () => {
+    process.env.POWERPLATFORM_FILES_DIRECTORY = path.join(root, 'missing');
+    assert.throws(() => loadFileAccessOptions('stdio'), /not an existing directory/);
+  });
+});
@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { getFlowTriggerEntity, parseFlowClientData } from '../src/flowDefinition.js';
+
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(import.meta.dirname, 'fixtures', 'flows', name), 'utf8');
+}
+
+describe('parseFlowClientData', () => {
+  it('summarizes a Dataverse trigger with filtering attributes', () => {
+    const summary = parseFlowClientData(readFixture('dataverse-trigger.json'));
+
+    assert.deepEqual(summary.triggers, [{
+      name: 'When_an_account_is_added_or_modified',
+      type: 'OpenApiConnectionWebhook',
+      connector: 'shared_commondataserviceforapps',
+      operation: 'SubscribeWebhookTrigger',
+      entity: 'account',
+      message: 'Create or Update',
+      scope: 'Organization',
+      filteringAttributes: ['name', 'telephone1', 'creditlimit'],
+    }]);
+    assert.equal(getFlowTriggerEntity(summary), 'account');
+    assert.deepEqual(summary.actions, [
+      { name: 'Get_primary_contact', type: 'OpenApiConnection', depth: 0, connector: 'shared_commondataserviceforapps', operation: 'GetItem' },
+      { name: 'Notify_account_manager', type: 'OpenApiConnection', depth: 0, connector: 'shared_office365', operation: 'SendEmailV2', runAfter: ['Get_primary_contact'] },
+    ]);
+    assert.deepEqual(summary.connectors, ['shared_commondataserviceforapps', 'shared_office365']);
+  });
+
+  it('lists nested actions of scopes, loops, conditions and switches after their container', () => {
+    const summary = parseFlowClientData(readFixture('nested-actions.json'));
+
+    assert.deepEqual(summary.triggers, [{ name: 'Recurrence', type: 'Recurrence', recurrence: 'every 1 Day' }]);
+    assert.equal(getFlowTriggerEntity(summary), undefined);
+    assert.deepEqual(summary.actions.map(action => [action.name, action.type, action.depth]), [
+      ['Process_overdue_tasks', 'Scope', 0],
+      ['List_overdue_tasks', 'OpenApiConnection', 1],
+      ['For_each_task', 'Foreach', 1],
+      ['Is_high_priority', 'If', 2],
+      ['Escalate', 'Compose', 3],
+      ['Remind', 'Compose', 3],
+      ['Switch_on_outcome', 'Switch', 0],
+      ['Log_success', 'Compose', 1],
+      ['Terminate_failed', 'Terminate', 1],
+    ]);
+    assert.deepEqual(summary.actions.find(action => action.name === 'Switch_on_outcome')!.runAfter, ['Process_overdue_tasks']);
+    assert.deepEqual(summary.connectors, ['shared_commondataserviceforapps']);
+  });
+
+  it('summarizes a non-Dataverse trigger and connectors identified by API ID', () => {
+    const summary = parseFlowClientData(readFixture('http-trigger.json'));
+
+    assert.deepEqual(summary.triggers, [{ name: 'manual', type: 'Request' }]);
+    assert.equal(getFlowTriggerEntity(summary), undefined);
+    assert.deepEqual(summary.actions, [
+      { name: 'Create_item', type: 'OpenApiConnection', depth: 0, connector: 'shared_sharepointonline', operation: 'PostItem' },
+      { name: 'Response', type: 'Response', depth: 0, runAfter: ['Create_item'] },
+    ]);
+    assert.deepEqual(summary.connectors, ['shared_sharepointonline']);
+  });
+
+  it('rejects clientdata without a definition', () => {
+    assert.throws(() => parseFlowClientData('{'), /not valid JSON/);
+    assert.throws(() => parseFlowClientData('{"properties":{}}'), /properties\.definition/);
+  });
+});
@@ -0,0 +1,55 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+// A request received by the mock server
+export interface ReceivedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+// Handles one request; the index counts the requests received so far, starting at 0
+export type MockHandler = (request: http.IncomingMessage, response: http.ServerResponse, index: number) => void;
+
+/**
+ * Local HTTP server standing in for a Dataverse organization
+ */
+export class MockServer {
+  readonly requests: ReceivedRequest[] = [];
+  private server: http.Server;
+
+  private constructor(handler: MockHandler) {
+    this.server = http.createServer((request, response) => {
+      const index = this.requests.length;
+      this.requests.push({ method: request.method || '', url: request.url || '', headers: request.headers });
+      handler(request, response, index);
+    });
+  }
+
+  /**
+   * Start a server on a free local port
+   * @param handler Handles each request
+   */
+  static async start(handler: MockHandler): Promise<MockServer> {
+    const mock = new MockServer(handler);
+    await new Promise<void>(resolve => mock.server.listen(0, '127.0.0.1', resolve));
+    return mock;
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+}
+
+/**
+ * Send a JSON response
+ */
+export function sendJson(response: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+}
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { HttpServerOptions, startHttpServer } from '../src/httpServer.js';
+
+const INITIALIZE_REQUEST = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+};
+
+const PING_REQUEST = { jsonrpc: '2.0', id: 2, method: 'ping' };
+
+let server: http.Server | undefined;
+let baseUrl: string;
+
+async function start(options: Partial<HttpServerOptions> = {}): Promise<void> {
+  server = await startHttpServer(() => new McpServer({ name: 'test', version: '1.0.0' }), {
+    port: 0,
+    host: '127.0.0.1',
+    auth: { apiKeys: ['key-one', 'key-two'] },
+    ...options,
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+async function post(apiKey: string, body: unknown, sessionId?: string): Promise<Response> {
+  const response = await fetch(`${baseUrl}/mcp`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json, text/event-stream',
+      'X-API-Key': apiKey,
+      ...(sessionId ? { 'mcp-session-id': sessionId } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+  await response.text();
+  return response;
+}
+
+async function openSession(apiKey: string): Promise<string> {
+  const response = await post(apiKey, INITIALIZE_REQUEST);
+  assert.equal(response.status, 200);
+  return response.headers.get('mcp-session-id')!;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('HTTP server sessions', () => {
+  beforeEach(() => {
+    // Closed sessions are logged to stderr
+    mock.method(console, 'error', () => {});
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    server?.closeAllConnections();
+    await new Promise(resolve => server?.close(resolve));
+    server = undefined;
+  });
+
+  it('serves requests on a session to the caller that opened it', async () => {
+    await start();
+    const sessionId = await openSession('key-one');
+    assert.equal((await post('key-one', PING_REQUEST, sessionId)).status, 200);
+  });
+
+  it('rejects a session ID used with another caller\'s credentials', async () => {
+    await start();
+    const sessionId = await openSession('key-one');
+    assert.equal((await post('key-two', PING_REQUEST, sessionId)).status, 404);
+  });
+
+  it('refuses new sessions beyond the limit', async () => {
+    await start({ maxSessions: 1 });
+    await openSession('key-one');
+    assert.equal((await post('key-one', INITIALIZE_REQUEST)).status, 503);
+  });
+
+  it('closes sessions that have been idle', async () => {
+    await start({ sessionIdleTimeoutMs: 50 });
+    const sessionId = await openSession('key-one');
+    await delay(150);
+    assert.equal((await post('key-one', PING_REQUEST, sessionId)).status, 404);
+    assert.equal((await post('key-one', INITIALIZE_REQUEST)).status, 200);
+  });
+});
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatRecord } from '../src/recordFormatting.js';
+
+const CONTACT_ID = '0f3b2a1c-5d6e-4f70-8a9b-0c1d2e3f4a5b';
+
+describe('formatRecord', () => {
+  it('renames lookups and folds in their annotations', () => {
+    const formatted = formatRecord({
+      name: 'Contoso',
+      '_primarycontactid_value': CONTACT_ID,
+      '_primarycontactid_value@Microsoft.Dynamics.CRM.lookuplogicalname': 'contact',
+      '_primarycontactid_value@OData.Community.Display.V1.FormattedValue': 'Yvonne McKay',
+    });
+
+    assert.deepEqual(formatted, {
+      name: 'Contoso',
+      primarycontactid: { id: CONTACT_ID, entity: 'contact', name: 'Yvonne McKay' },
+    });
+  });
+
+  it('keeps the lookup under its original key when the related record is expanded under the same name', () => {
+    const formatted = formatRecord({
+      '_primarycontactid_value': CONTACT_ID,
+      '_primarycontactid_value@Microsoft.Dynamics.CRM.lookuplogicalname': 'contact',
+      '_primarycontactid_value@OData.Community.Display.V1.FormattedValue': 'Yvonne McKay',
+      primarycontactid: {
+        contactid: CONTACT_ID,
+        fullname: 'Yvonne McKay',
+        statecode: 0,
+        'statecode@OData.Community.Display.V1.FormattedValue': 'Active',
+      },
+    });
+
+    assert.deepEqual(formatted, {
+      '_primarycontactid_value': { id: CONTACT_ID, entity: 'contact', name: 'Yvonne McKay' },
+      primarycontactid: {
+        contactid: CONTACT_ID,
+        fullname: 'Yvonne McKay',
+        statecode: { value: 0, formatted: 'Active' },
+      },
+    });
+  });
+
+  it('formats expanded collections and keeps the etag', () => {
+    const formatted = formatRecord({
+      '@odata.etag': 'W/"123"',
+      contact_customer_accounts: [
+        { fullname: 'Yvonne McKay', createdon: '2024-01-02T03:04:05Z', 'createdon@OData.Community.Display.V1.FormattedValue': '1/2/2024 3:04 AM' },
+      ],
+    });
+
+    assert.deepEqual(formatted, {
+      '@odata.etag': 'W/"123"',
+      contact_customer_accounts: [
+        { fullname: 'Yvonne McKay', createdon: { value: '2024-01-02T03:04:05Z', formatted: '1/2/2024 3:04 AM' } },
+      ],
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { AuthenticationError } from '../src/AuthenticationError.js';
+import { PowerPlatformApiError } from '../src/PowerPlatformApiError.js';
+import { PowerPlatformConfig, PowerPlatformService } from '../src/PowerPlatformService.js';
+import { MockHandler, MockServer, sendJson } from './helpers/mockServer.js';
+
+const ENDPOINT = 'api/data/v9.2/accounts';
+
+let server: MockServer | undefined;
+
+async function startService(handler: MockHandler, config: Partial<PowerPlatformConfig> = {}): Promise<PowerPlatformService> {
+  server = await MockServer.start(handler);
+  return new PowerPlatformService({
+    organizationUrl: server.url,
+    credentialProvider: { getAccessToken: async () => ({ token: 'test-token' }) },
+    metadataCacheTtlSeconds: 0,
+    ...config,
+  });
+}
+
+// makeRequest is private; the tests exercise the retry policy through it directly
+function request(service: PowerPlatformService, method: string = 'GET'): Promise<any> {
+  return (service as any).makeRequest(ENDPOINT, method, method === 'GET' ? undefined : { name: 'Contoso' });
+}
+
+// Fail the first `failures` requests with the given status, then succeed
+function failThenSucceed(failures: number, status: number, headers: Record<string, string> = { 'Retry-After': '0' }): MockHandler {
+  return (_request, response, index) => index < failures
+    ? sendJson(response, status, { error: { code: '0x80072321', message: 'Try again later' } }, headers)
+    : sendJson(response, 200, { value: [{ name: 'Contoso' }] });
+}
+
+describe('request retries', () => {
+  beforeEach(() => {
+    // Retries are logged to stderr
+    mock.method(console, 'error', () => {});
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await server?.close();
+    server = undefined;
+  });
+
+  it('retries throttled (429) requests', async () => {
+    const service = await startService(failThenSucceed(2, 429));
+    const result = await request(service);
+    assert.deepEqual(result.value, [{ name: 'Contoso' }]);
+    assert.equal(server!.requests.length, 3);
+  });
+
+  for (const status of [502, 503, 504]) {
+    it(`retries reads failing with ${status}`, async () => {
+      const service = await startService(failThenSucceed(1, status));
+      await request(service);
+      assert.equal(server!.requests.length, 2);
+    });
+  }
+
+  it('retries reads after network errors', async () => {
+    const service = await startService((request, response, index) => index === 0
+      ? request.socket.destroy()
+      : sendJson(response, 200, { value: [] }));
+    await request(service);
+    assert.equal(server!.requests.length, 2);
+  });
+
+  it('gives up after maxRetries retries', async () => {
+    const service = await startService(failThenSucceed(10, 503), { maxRetries: 2 });
+    await assert.rejects(request(service), (error: unknown) => error instanceof PowerPlatformApiError && error.status === 503);
+    assert.equal(server!.requests.length, 3);
+  });
+
+  it('does not retry client errors', async () => {
+    const service = await startService(failThenSucceed(1, 400));
+    await assert.rejects(request(service), (error: unknown) => error instanceof PowerPlatformApiError && error.status === 400);
+    assert.equal(server!.requests.length, 1);
+  });
+
+  it('waits for the Retry-After delay', async () => {
+    const service = await startService(failThenSucceed(1, 429, { 'Retry-After': '1' }));
+    const started = Date.now();
+    await request(service);
+    assert.ok(Date.now() - started >= 950, 'the retry was sent before Retry-After elapsed');
+    assert.equal(server!.requests.length, 2);
+  });
+
+  it('accepts Retry-After as an HTTP date', async () => {
+    const service = await startService(failThenSucceed(1, 429, { 'Retry-After': new Date(Date.now() - 1000).toUTCString() }));
+    await request(service);
+    assert.equal(server!.requests.length, 2);
+  });
+
+  it('fails fast when Retry-After is longer than a minute', async () => {
+    const service = await startService(failThenSucceed(1, 429, { 'Retry-After': '300' }));
+    const started = Date.now();
+    await assert.rejects(request(service), (error: unknown) => error instanceof PowerPlatformApiError && error.status === 429);
+    assert.equal(server!.requests.length, 1);
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  it('retries throttled writes, which the server rejected before running them', async () => {
+    const service = await startService(failThenSucceed(1, 429));
+    await request(service, 'POST');
+    assert.equal(server!.requests.length, 2);
+  });
+
+  for (const status of [502, 503, 504]) {
+    it(`does not retry writes failing with ${status}`, async () => {
+      const service = await startService(failThenSucceed(1, status));
+      await assert.rejects(request(service, 'POST'), (error: unknown) => error instanceof PowerPlatformApiError && error.status === status);
+      assert.equal(server!.requests.length, 1);
+    });
+  }
+
+  it('does not retry writes after network errors', async () => {
+    const service = await startService((request, response, index) => index === 0
+      ? request.socket.destroy()
+      : sendJson(response, 200, {}));
+    await assert.rejects(request(service, 'PATCH'), PowerPlatformApiError);
+    assert.equal(server!.requests.length, 1);
+  });
+
+  it('gets the access token again for each attempt', async () => {
+    let tokens = 0;
+    const service = await startService(failThenSucceed(1, 429, { 'Retry-After': '1' }), {
+      // Tokens are refreshed 5 minutes before they expire, so this one is only reused for 100ms
+      credentialProvider: {
+        getAccessToken: async () => ({ token: `token-${++tokens}`, expiresOn: new Date(Date.now() + 5 * 60 * 1000 + 100) }),
+      },
+    });
+    await request(service);
+    assert.deepEqual(server!.requests.map(received => received.headers.authorization), ['Bearer token-1', 'Bearer token-2']);
+  });
+
+  it('reports authentication failures as such instead of as a request without response', async () => {
+    const service = await startService(failThenSucceed(0, 200), {
+      credentialProvider: { getAccessToken: async () => { throw new Error('AADSTS7000215: Invalid client secret provided'); } },
+    });
+    await assert.rejects(request(service), (error: unknown) => error instanceof AuthenticationError && /AADSTS7000215/.test(error.message));
+    assert.equal(server!.requests.length, 0);
+  });
+
+  it('limits the number of requests in flight', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const service = await startService((_request, response) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      setTimeout(() => {
+        active--;
+        sendJson(response, 200, { value: [] });
+      }, 20);
+    }, { maxConcurrentRequests: 2 });
+
+    await Promise.all(Array.from({ length: 6 }, () => request(service)));
+    assert.equal(server!.requests.length, 6);
+    assert.equal(maxActive, 2);
+  });
+});
@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import JSZip from 'jszip';
+import { parseSolutionManifest, readSolutionPackage, saveSolutionPackage, splitCustomizationEntities, unpackSolutionPackage } from '../src/solutionPackage.js';
+
+const FIXTURE = path.join(import.meta.dirname, 'fixtures', 'ContosoCore_1_2_0_3.zip');
+
+describe('solution packages', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'powerplatform-mcp-'));
+  });
+
+  after(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it('reads the manifest of a solution zip', async () => {
+    const { zip, manifest } = await readSolutionPackage(FIXTURE);
+    assert.ok(zip.length > 0);
+    assert.deepEqual(manifest, {
+      uniqueName: 'ContosoCore',
+      version: '1.2.0.3',
+      managed: false,
+      publisherUniqueName: 'contoso',
+      publisherPrefix: 'cr1',
+    });
+  });
+
+  it('parses managed solutions and rejects solution.xml without a manifest', () => {
+    const manifest = parseSolutionManifest('<ImportExportXml><SolutionManifest><UniqueName>Core</UniqueName><Version>2.0</Version><Managed>1</Managed></SolutionManifest></ImportExportXml>');
+    assert.deepEqual(manifest, { uniqueName: 'Core', version: '2.0', managed: true, publisherUniqueName: undefined, publisherPrefix: undefined });
+    assert.throws(() => parseSolutionManifest('<ImportExportXml />'), /UniqueName/);
+  });
+
+  it('splits customizations.xml into one file per entity', async () => {
+    const archive = await JSZip.loadAsync(await fs.promises.readFile(FIXTURE));
+    const entities = splitCustomizationEntities(await archive.file('customizations.xml')!.async('string'));
+    assert.deepEqual(entities.map(entity => entity.name), ['cr1_project', 'cr1_task']);
+    assert.match(entities[0].xml, /^<Entity>[\s\S]*cr1_name[\s\S]*<\/Entity>$/);
+    assert.doesNotMatch(entities[0].xml, /cr1_projectid/);
+  });
+
+  it('saves and unpacks an exported solution next to the zip', async () => {
+    const zip = await fs.promises.readFile(FIXTURE);
+    const zipPath = path.join(directory, 'export', 'ContosoCore.zip');
+    const saved = await saveSolutionPackage(zip, zipPath, true);
+
+    assert.equal(saved.manifest.uniqueName, 'ContosoCore');
+    assert.equal(saved.unpackedDirectory, path.join(directory, 'export', 'ContosoCore'));
+    assert.deepEqual(saved.files, [
+      'Entities/cr1_project.xml',
+      'Entities/cr1_task.xml',
+      'WebResources/cr1_/scripts/project.js',
+      '[Content_Types].xml',
+      'customizations.xml',
+      'solution.xml',
+    ]);
+    assert.deepEqual(await fs.promises.readFile(zipPath), zip);
+    const task = await fs.promises.readFile(path.join(saved.unpackedDirectory!, 'Entities', 'cr1_task.xml'), 'utf8');
+    assert.match(task, /cr1_projectid/);
+  });
+
+  it('does not unpack when asked not to', async () => {
+    const zipPath = path.join(directory, 'packed', 'ContosoCore.zip');
+    const saved = await saveSolutionPackage(await fs.promises.readFile(FIXTURE), zipPath, false);
+    assert.equal(saved.unpackedDirectory, undefined);
+    assert.deepEqual(await fs.promises.readdir(path.dirname(zipPath)), ['ContosoCore.zip']);
+  });
+
+  it('never writes entries outside of the target directory', async () => {
+    const archive = await JSZip.loadAsync(await fs.promises.readFile(FIXTURE));
+    archive.file('../escaped.txt', 'outside');
+    await assert.rejects(unpackSolutionPackage(archive, path.join(directory, 'unsafe', 'target')), /outside of the target directory/);
+    assert.equal(fs.existsSync(path.join(directory, 'unsafe', 'escaped.txt')), false);
+  });
+
+  it('does not unpack into a folder linking outside of the files directory', async () => {
+    const baseDirectory = path.join(directory, 'files');
+    await fs.promises.mkdir(path.join(directory, 'elsewhere'), { recursive: true });
+    await fs.promises.mkdir(baseDirectory, { recursive: true });
+    await fs.promises.symlink(path.join(directory, 'elsewhere'), path.join(baseDirectory, 'ContosoCore'));
+
+    const zip = await fs.promises.readFile(FIXTURE);
+    await assert.rejects(saveSolutionPackage(zip, path.join(baseDirectory, 'ContosoCore.zip'), true, { baseDirectory }), /outside of the files directory/);
+    assert.deepEqual(await fs.promises.readdir(path.join(directory, 'elsewhere')), []);
+    assert.equal(fs.existsSync(path.join(baseDirectory, 'ContosoCore.zip')), false);
+  });
+
+  it('rejects zips that are not solution packages', async () => {
+    const notASolution = await new JSZip().file('readme.txt', 'hello').generateAsync({ type: 'nodebuffer' });
+    const zipPath = path.join(directory, 'readme.zip');
+    await fs.promises.writeFile(zipPath, notASolution);
+    await assert.rejects(readSolutionPackage(zipPath), /Not a solution package/);
+
+    await fs.promises.writeFile(zipPath, 'not a zip');
+    await assert.rejects(readSolutionPackage(zipPath), /Not a valid zip file/);
+  });
+});